@@ -1,4 +1,4 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, useRoute } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
@@ -16,10 +16,14 @@ import Register from "@/pages/register";
 import Dashboard from "@/pages/dashboard";
 import Products from "@/pages/products";
 import Orders from "@/pages/orders";
+import Clients from "@/pages/clients";
+import Analytics from "@/pages/analytics";
+import Live from "@/pages/live";
 import Settings from "@/pages/settings";
 import Admin from "@/pages/admin-upcoming";
 import Pay from "@/pages/pay";
 import ProductPublic from "@/pages/product-public";
+import Overlay from "@/pages/overlay";
 import { InstallPrompt } from "@/components/install-prompt";
 
 function AuthenticatedRouter() {
@@ -42,6 +46,9 @@ function AuthenticatedRouter() {
               <Route path="/" component={Dashboard} />
               <Route path="/products" component={Products} />
               <Route path="/orders" component={Orders} />
+              <Route path="/clients" component={Clients} />
+              <Route path="/live" component={Live} />
+              <Route path="/analytics" component={Analytics} />
               <Route path="/settings" component={Settings} />
               <Route path="/admin" component={Admin} />
               <Route component={NotFound} />
@@ -55,6 +62,10 @@ function AuthenticatedRouter() {
 
 function AppRouter() {
   const { user, isLoading } = useAuth();
+  const [isOverlay] = useRoute("/overlay/:token");
+
+  // Stream overlay: public, transparent, nothing else on the page
+  if (isOverlay) return <Overlay />;
 
   if (isLoading) {
     return (
@@ -11,16 +11,19 @@ import {
   SidebarFooter,
 } from "@/components/ui/sidebar";
 import { Link, useLocation } from "wouter";
-import { LayoutDashboard, Package, ShoppingCart, LogOut, Settings, MessageCircle, Shield } from "lucide-react";
+import { LayoutDashboard, Package, ShoppingCart, Users, Radio, BarChart3, LogOut, Settings, MessageCircle, Shield } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 
-// Navigation simplifiée MVP - 4 items essentiels
+// Navigation simplifiée MVP
 const navItems = [
   { title: "Dashboard", url: "/", icon: LayoutDashboard },
   { title: "Produits", url: "/products", icon: Package },
   { title: "Commandes", url: "/orders", icon: ShoppingCart },
+  { title: "Clients", url: "/clients", icon: Users },
+  { title: "Lives", url: "/live", icon: Radio },
+  { title: "Analytique", url: "/analytics", icon: BarChart3 },
   { title: "Paramètres", url: "/settings", icon: Settings },
 ];
 
@@ -21,6 +21,7 @@ import {
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { type Product } from "@/lib/firebase";
+import { formatPrice } from "@shared/format";
 
 interface ProductShareDialogProps {
   product: Product;
@@ -112,10 +113,6 @@ export function ProductShareDialog({
     }
   };
 
-  const formatPrice = (price: number) => {
-    return price.toLocaleString("fr-FR") + " FCFA";
-  };
-
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
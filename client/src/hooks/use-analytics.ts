@@ -0,0 +1,32 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "./use-auth";
+import { getVendorDailyStats, type VendorStats } from "@/lib/firebase";
+
+// yyyy-mm-dd in UTC, matching the server's stats days (server/stats.ts)
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Last `days` days including today, one entry per day (empty days filled with null)
+export function useDailyStats(days: number) {
+  const { user } = useAuth();
+  const today = new Date();
+  const from = new Date(today.getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+  const fromDay = dayKey(from);
+  const toDay = dayKey(today);
+
+  const { data = [], isLoading, error } = useQuery({
+    queryKey: ["vendorStats", user?.id, fromDay, toDay],
+    queryFn: () => getVendorDailyStats(user!.id, fromDay, toDay),
+    enabled: !!user,
+  });
+
+  const byDay = new Map(data.map((d) => [d.date, d]));
+  const series: { date: string; stats: VendorStats | null }[] = [];
+  for (let i = 0; i < days; i++) {
+    const date = dayKey(new Date(from.getTime() + i * 24 * 60 * 60 * 1000));
+    series.push({ date, stats: byDay.get(date) ?? null });
+  }
+
+  return { days: data, series, isLoading, error };
+}
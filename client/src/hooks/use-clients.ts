@@ -0,0 +1,50 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "./use-auth";
+import {
+  getClients,
+  getClientOrders,
+  updateClient,
+  type Client,
+  type ClientProfileUpdate,
+} from "@/lib/firebase";
+
+export function useClients() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: clients = [], isLoading, error } = useQuery({
+    queryKey: ["clients", user?.id],
+    queryFn: () => (user ? getClients(user.id) : Promise.resolve([])),
+    enabled: !!user,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, ...data }: { id: string } & ClientProfileUpdate) => updateClient(id, data),
+    onSuccess: (_result, { id, ...data }) => {
+      queryClient.setQueryData<Client[]>(["clients", user?.id], (current) =>
+        current?.map((c) => (c.id === id ? { ...c, ...data, updatedAt: new Date() } : c))
+      );
+    },
+  });
+
+  return {
+    clients,
+    isLoading,
+    error,
+    update: updateMutation.mutateAsync,
+    isUpdating: updateMutation.isPending,
+  };
+}
+
+// Order history of one client, loaded when their card is opened
+export function useClientOrders(client: Client | null) {
+  const { user } = useAuth();
+
+  const { data: orders = [], isLoading } = useQuery({
+    queryKey: ["clientOrders", user?.id, client?.phone],
+    queryFn: () => getClientOrders(user!.id, client!.phone),
+    enabled: !!user && !!client,
+  });
+
+  return { orders, isLoading };
+}
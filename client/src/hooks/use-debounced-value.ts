@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+
+// The value once it has stopped changing for `delayMs` (search inputs)
+export function useDebouncedValue<T>(value: T, delayMs: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timeout);
+  }, [value, delayMs]);
+
+  return debounced;
+}
@@ -0,0 +1,165 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "./use-auth";
+import {
+  getActiveLiveSession,
+  getLiveSessions,
+  getLiveSessionOrders,
+  createLiveSession,
+  updateLiveSession,
+  updateLiveOverlay,
+  getVendorConfig,
+  updateVendorConfig,
+  type LivePlatform,
+  type LiveSession,
+  type Order,
+} from "@/lib/firebase";
+
+export interface LiveSessionSummary {
+  orders: number;
+  paidOrders: number;
+  revenue: number;
+  // Still reserved / pending: stock held but not paid yet
+  unpaidReservations: number;
+  unpaidAmount: number;
+  topProducts: { productId: string; productName: string; quantity: number; revenue: number }[];
+}
+
+function summarize(orders: Order[]): LiveSessionSummary {
+  const summary: LiveSessionSummary = {
+    orders: orders.length,
+    paidOrders: 0,
+    revenue: 0,
+    unpaidReservations: 0,
+    unpaidAmount: 0,
+    topProducts: [],
+  };
+  const products = new Map<string, LiveSessionSummary["topProducts"][number]>();
+
+  for (const order of orders) {
+    if (order.status === "paid") {
+      summary.paidOrders++;
+      summary.revenue += order.totalAmount;
+    } else if (order.status === "reserved" || order.status === "pending") {
+      summary.unpaidReservations++;
+      summary.unpaidAmount += order.totalAmount;
+    }
+    if (order.status === "cancelled" || order.status === "expired") continue;
+
+    const product = products.get(order.productId) ?? {
+      productId: order.productId,
+      productName: order.productName || "Produit",
+      quantity: 0,
+      revenue: 0,
+    };
+    product.quantity += order.quantity;
+    if (order.status === "paid") product.revenue += order.totalAmount;
+    products.set(order.productId, product);
+  }
+
+  summary.topProducts = Array.from(products.values())
+    .sort((a, b) => b.quantity - a.quantity)
+    .slice(0, 5);
+  return summary;
+}
+
+// Keeps VendorConfig.liveMode (read by the chatbot) in line with the session
+async function setLiveMode(vendorId: string, liveMode: boolean): Promise<void> {
+  const config = await getVendorConfig(vendorId);
+  if (config && config.liveMode !== liveMode) {
+    await updateVendorConfig(config.id, { liveMode });
+  }
+}
+
+export function useLiveSession() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: activeSession = null, isLoading } = useQuery({
+    queryKey: ["liveSession", user?.id],
+    queryFn: () => getActiveLiveSession(user!.id),
+    enabled: !!user,
+  });
+
+  const { data: sessions = [] } = useQuery({
+    queryKey: ["liveSessions", user?.id],
+    queryFn: () => getLiveSessions(user!.id),
+    enabled: !!user,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["liveSession"] });
+    queryClient.invalidateQueries({ queryKey: ["liveSessions"] });
+    queryClient.invalidateQueries({ queryKey: ["vendorConfig"] });
+  };
+
+  const startMutation = useMutation({
+    mutationFn: async ({ title, platform }: { title: string; platform: LivePlatform }) => {
+      if (await getActiveLiveSession(user!.id)) {
+        throw new Error("Un live est déjà en cours");
+      }
+      const session = await createLiveSession({ vendorId: user!.id, title, platform });
+      await setLiveMode(user!.id, true);
+      return session;
+    },
+    onSuccess: invalidate,
+  });
+
+  const endMutation = useMutation({
+    mutationFn: async (session: LiveSession) => {
+      await updateLiveSession(session.id, { active: false, endedAt: new Date() });
+      if (session.overlayToken) await updateLiveOverlay(session.overlayToken, { active: false });
+      await setLiveMode(user!.id, false);
+      return session;
+    },
+    onSuccess: invalidate,
+  });
+
+  // Lineup edits and the "now showing" pointer; applied to the cache first so
+  // the vendor's phone reacts immediately while they are on air
+  const lineupMutation = useMutation({
+    mutationFn: async ({ session, ...data }: { session: LiveSession } & Partial<Pick<LiveSession, "lineup" | "currentIndex">>) => {
+      await updateLiveSession(session.id, data);
+      // The stream overlay follows the pointer
+      if (session.overlayToken) {
+        const lineup = data.lineup ?? session.lineup;
+        await updateLiveOverlay(session.overlayToken, {
+          showing: lineup[data.currentIndex ?? session.currentIndex] ?? null,
+        });
+      }
+    },
+    onMutate: ({ session, ...data }) => {
+      queryClient.setQueryData<LiveSession | null>(["liveSession", user?.id], (current) =>
+        current && current.id === session.id ? { ...current, ...data } : current
+      );
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["liveSession"] });
+    },
+  });
+
+  return {
+    activeSession,
+    sessions,
+    isLoading,
+    start: startMutation.mutateAsync,
+    end: endMutation.mutateAsync,
+    updateLineup: lineupMutation.mutateAsync,
+    isStarting: startMutation.isPending,
+    isEnding: endMutation.isPending,
+    isUpdatingLineup: lineupMutation.isPending,
+  };
+}
+
+// `live`: the session is still running, so its orders are refreshed periodically
+export function useLiveSessionSummary(sessionId: string | null | undefined, live = false) {
+  const { user } = useAuth();
+
+  const { data: orders = [], isLoading } = useQuery({
+    queryKey: ["liveSessionOrders", user?.id, sessionId],
+    queryFn: () => getLiveSessionOrders(user!.id, sessionId!),
+    enabled: !!user && !!sessionId,
+    refetchInterval: live ? 30_000 : false,
+  });
+
+  return { orders, summary: summarize(orders), isLoading };
+}
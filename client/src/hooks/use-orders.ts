@@ -1,63 +1,144 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient, type InfiniteData } from "@tanstack/react-query";
 import { useAuth } from "./use-auth";
 import {
-  getOrders,
+  getOrdersPage,
+  getOrderStats,
+  subscribeToOrders,
   createOrder,
   updateOrder,
+  updateOrderStatus,
   type Order,
-  type OrderStatus,
+  type OrderCursor,
+  type OrderFilters,
+  type OrderPage,
+  type OrderStats,
+  type CreateOrderInput,
+  type PaymentMethod,
 } from "@/lib/firebase";
+import { assertTransition } from "@shared/order-status";
+import { playOrderNotification } from "@/lib/notification-sound";
 
-export function useOrders() {
+const EMPTY_STATS: OrderStats = { pending: 0, reserved: 0, paid: 0, expired: 0, totalRevenue: 0 };
+
+// A new order came in, or an existing one was just paid
+function hasNewActivity(previous: Order[], next: Order[]): boolean {
+  const before = new Map(previous.map((o) => [o.id, o.status]));
+  return next.some((o) => !before.has(o.id) || (o.status === "paid" && before.get(o.id) !== "paid"));
+}
+
+export function useOrders(filters: OrderFilters = {}) {
   const { user } = useAuth();
   const queryClient = useQueryClient();
+  const queryKey = ["orders", user?.id, filters];
+  const filtersKey = JSON.stringify(filters);
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey,
+    queryFn: ({ pageParam }) => getOrdersPage(user!.id, filters, pageParam),
+    initialPageParam: null as OrderCursor | null,
+    getNextPageParam: (lastPage) => (lastPage.hasMore ? lastPage.cursor : undefined),
+    enabled: !!user,
+  });
+
+  // The first page can grow with the live feed, so later pages may repeat an order
+  const seen = new Set<string>();
+  const orders = (data?.pages ?? []).flatMap((page) => page.orders).filter((o) => {
+    if (seen.has(o.id)) return false;
+    seen.add(o.id);
+    return true;
+  });
 
-  const { data: orders = [], isLoading, error } = useQuery({
-    queryKey: ["orders", user?.id],
-    queryFn: () => (user ? getOrders(user.id) : Promise.resolve([])),
+  const { data: stats = EMPTY_STATS } = useQuery({
+    queryKey: ["orderStats", user?.id],
+    queryFn: () => getOrderStats(user!.id),
     enabled: !!user,
   });
 
+  // Oldest order of the first page as loaded: the live feed covers everything newer
+  const firstPage = data?.pages[0];
+  const liveSince = firstPage?.hasMore ? firstPage.orders[firstPage.orders.length - 1]?.createdAt : undefined;
+  const liveSinceMs = liveSince?.getTime();
+
+  // Keep the first page in sync with Firestore while the page is open
+  useEffect(() => {
+    if (!user || !firstPage) return;
+    let isFirstSnapshot = true;
+
+    return subscribeToOrders(
+      user.id,
+      (next, cursor) => {
+        const previous = queryClient.getQueryData<InfiniteData<OrderPage>>(queryKey);
+        // The first snapshot only catches up with the cache, it is not news
+        if (!isFirstSnapshot) {
+          if (previous && hasNewActivity(previous.pages[0]?.orders ?? [], next)) playOrderNotification();
+          queryClient.invalidateQueries({ queryKey: ["orderStats"] });
+        }
+        isFirstSnapshot = false;
+        queryClient.setQueryData<InfiniteData<OrderPage>>(queryKey, (current) =>
+          current && {
+            ...current,
+            pages: [
+              { orders: next, cursor, hasMore: current.pages[0].hasMore },
+              ...current.pages.slice(1),
+            ],
+          }
+        );
+      },
+      {
+        filters,
+        since: liveSinceMs !== undefined ? new Date(liveSinceMs) : undefined,
+        onError: (err) => console.error("Order feed error:", err),
+      }
+    );
+    // Filters compared by value; the feed starts once the first page is in the cache
+  }, [user?.id, filtersKey, liveSinceMs, !!firstPage, queryClient]);
+
   const createMutation = useMutation({
-    mutationFn: (data: Omit<Order, "id" | "createdAt" | "updatedAt" | "vendorId">) =>
-      createOrder({ ...data, vendorId: user!.id }),
+    mutationFn: (data: CreateOrderInput) => createOrder(data),
+    // The order list itself is updated by the live feed
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["orderStats"] });
     },
   });
 
   const updateMutation = useMutation({
-    mutationFn: ({ id, ...data }: { id: string } & Partial<Order>) =>
+    mutationFn: ({ id, ...data }: { id: string } & Partial<Omit<Order, "status">>) =>
       updateOrder(id, data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["orders"] });
-    },
   });
 
   const updateStatusMutation = useMutation({
-    mutationFn: ({ id, status }: { id: string; status: OrderStatus }) =>
-      updateOrder(id, { status }),
+    mutationFn: ({ id, status, paymentMethod }: {
+      id: string;
+      status: "paid" | "cancelled";
+      paymentMethod?: PaymentMethod;
+    }) => {
+      const current = orders.find((o) => o.id === id);
+      if (current) assertTransition(current.status, status);
+      return updateOrderStatus(id, status, paymentMethod);
+    },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["orderStats"] });
     },
   });
 
-  // Computed stats
-  const stats = {
-    pending: orders.filter((o) => o.status === "pending").length,
-    reserved: orders.filter((o) => o.status === "reserved").length,
-    paid: orders.filter((o) => o.status === "paid").length,
-    expired: orders.filter((o) => o.status === "expired").length,
-    totalRevenue: orders
-      .filter((o) => o.status === "paid")
-      .reduce((sum, o) => sum + o.totalAmount, 0),
-  };
-
   return {
     orders,
     stats,
     isLoading,
     error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
     create: createMutation.mutateAsync,
     update: updateMutation.mutateAsync,
     updateStatus: updateStatusMutation.mutateAsync,
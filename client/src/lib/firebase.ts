@@ -19,12 +19,58 @@ import {
   getDocs,
   updateDoc,
   deleteDoc,
-  addDoc,
   orderBy,
-  Timestamp,
+  onSnapshot,
+  limit,
+  startAfter,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
   writeBatch
 } from "firebase/firestore";
 import { getStorage, ref, uploadBytes, getDownloadURL } from "firebase/storage";
+import { apiRequest } from "./queryClient";
+import type { OrderStatusChange } from "@shared/order-status";
+import type {
+  User,
+  VendorConfig,
+  PublicVendorProfile,
+  UpdateVendorSecretsInput,
+  VendorSecretsStatus,
+  PaymentLinkView,
+  Product,
+  Order,
+  OrderStatus,
+  PaymentMethod,
+  CreateOrderInput,
+  LiveSession,
+  LivePlatform,
+  LiveLineupItem,
+  LiveOverlay,
+  Invoice,
+  InvoiceStatus,
+  Client,
+  ClientTier,
+  ClientProfileUpdate,
+  VendorStats,
+} from "@shared/types";
+import { publicVendorProfileFrom } from "@shared/types";
+import { normalizePhone } from "@shared/phone";
+import {
+  userConverter,
+  vendorConfigConverter,
+  publicVendorProfileConverter,
+  productConverter,
+  orderConverter,
+  orderStatusChangeConverter,
+  liveSessionConverter,
+  liveOverlayConverter,
+  invoiceConverter,
+  clientConverter,
+  vendorStatsConverter,
+  readDocument,
+  readDocuments,
+  toFirestoreUpdate,
+} from "@shared/converters";
 
 // Firebase configuration
 const firebaseConfig = {
@@ -43,18 +89,34 @@ export const auth = getAuth(app);
 export const db = getFirestore(app);
 export const storage = getStorage(app);
 
-// User types
-export interface UserProfile {
-  id: string;
-  email: string;
-  firstName?: string;
-  lastName?: string;
-  businessName?: string;
-  phone?: string;
-  role: "vendor" | "admin";
-  profileImageUrl?: string;
-  createdAt: Date;
-  updatedAt: Date;
+// Types and converters come from shared/ (zod schemas), re-exported for the pages
+export type UserProfile = User;
+export type {
+  VendorConfig,
+  PublicVendorProfile,
+  UpdateVendorSecretsInput,
+  VendorSecretsStatus,
+  PaymentLinkView,
+  Product,
+  Order,
+  OrderStatus,
+  PaymentMethod,
+  CreateOrderInput,
+  LiveSession,
+  LivePlatform,
+  LiveLineupItem,
+  LiveOverlay,
+  Invoice,
+  InvoiceStatus,
+  Client,
+  ClientTier,
+  ClientProfileUpdate,
+  VendorStats,
+  OrderStatusChange,
+};
+
+function userRef(uid: string) {
+  return doc(db, "users", uid).withConverter(userConverter);
 }
 
 // Auth functions
@@ -76,11 +138,7 @@ export async function loginWithEmail(email: string, password: string): Promise<U
       updatedAt: new Date(),
     };
     
-    await setDoc(doc(db, "users", user.uid), {
-      ...profile,
-      createdAt: Timestamp.fromDate(profile.createdAt),
-      updatedAt: Timestamp.fromDate(profile.updatedAt),
-    });
+    await setDoc(userRef(user.uid), profile);
   }
   
   return profile;
@@ -113,11 +171,7 @@ export async function registerWithEmail(
     updatedAt: new Date(),
   };
   
-  await setDoc(doc(db, "users", user.uid), {
-    ...profile,
-    createdAt: Timestamp.fromDate(profile.createdAt),
-    updatedAt: Timestamp.fromDate(profile.updatedAt),
-  });
+  await setDoc(userRef(user.uid), profile);
   
   return profile;
 }
@@ -127,27 +181,12 @@ export async function logout(): Promise<void> {
 }
 
 export async function getUserProfile(uid: string): Promise<UserProfile | null> {
-  const docSnap = await getDoc(doc(db, "users", uid));
-  if (!docSnap.exists()) return null;
-  
-  const data = docSnap.data();
-  return {
-    ...data,
-    id: docSnap.id,
-    createdAt: data.createdAt?.toDate() || new Date(),
-    updatedAt: data.updatedAt?.toDate() || new Date(),
-  } as UserProfile;
+  const docSnap = await getDoc(userRef(uid));
+  return docSnap.exists() ? docSnap.data() : null;
 }
 
 export async function updateUserProfile(uid: string, data: Partial<UserProfile>): Promise<UserProfile> {
-  const updateData = {
-    ...data,
-    updatedAt: Timestamp.now(),
-  };
-  delete (updateData as any).id;
-  delete (updateData as any).createdAt;
-  
-  await updateDoc(doc(db, "users", uid), updateData);
+  await updateDoc(userRef(uid), toFirestoreUpdate(userConverter, { ...data, updatedAt: new Date() }));
   const profile = await getUserProfile(uid);
   if (!profile) throw new Error("Erreur mise à jour profil");
   return profile;
@@ -173,11 +212,7 @@ export function subscribeToAuth(callback: (user: UserProfile | null) => void): (
             updatedAt: new Date(),
           };
           
-          await setDoc(doc(db, "users", firebaseUser.uid), {
-            ...profile,
-            createdAt: Timestamp.fromDate(profile.createdAt),
-            updatedAt: Timestamp.fromDate(profile.updatedAt),
-          });
+          await setDoc(userRef(firebaseUser.uid), profile);
         }
         
         callback(profile);
@@ -192,87 +227,63 @@ export function subscribeToAuth(callback: (user: UserProfile | null) => void): (
 }
 
 // ========== VENDOR CONFIG ==========
-export interface VendorConfig {
-  id: string;
-  vendorId: string;
-  businessName: string;
-  mobileMoneyNumber?: string;
-  preferredPaymentMethod: string;
-  whatsappPhoneNumberId?: string;
-  whatsappAccessToken?: string;
-  whatsappVerifyToken?: string;
-  status: "active" | "inactive" | "suspended";
-  liveMode: boolean;
-  reservationDurationMinutes: number;
-  autoReplyEnabled: boolean;
-  welcomeMessage?: string;
-  segment: string;
-  allowQuantitySelection: boolean;
-  requireDeliveryAddress: boolean;
-  autoReminderEnabled: boolean;
-  upsellEnabled: boolean;
-  minTrustScoreRequired: number;
-  messageTemplates?: string;
-  createdAt: Date;
-  updatedAt: Date;
-}
 
 export async function getVendorConfig(vendorId: string): Promise<VendorConfig | null> {
-  const q = query(collection(db, "vendorConfigs"), where("vendorId", "==", vendorId));
+  const q = query(
+    collection(db, "vendorConfigs").withConverter(vendorConfigConverter),
+    where("vendorId", "==", vendorId)
+  );
   const snap = await getDocs(q);
-  if (snap.empty) return null;
-  const docData = snap.docs[0];
-  const data = docData.data();
-  return {
-    ...data,
-    id: docData.id,
-    createdAt: data.createdAt?.toDate() || new Date(),
-    updatedAt: data.updatedAt?.toDate() || new Date(),
-  } as VendorConfig;
+  return snap.empty ? null : snap.docs[0].data();
 }
 
 export async function createVendorConfig(config: Omit<VendorConfig, "id" | "createdAt" | "updatedAt">): Promise<VendorConfig> {
-  const now = Timestamp.now();
-  const docRef = await addDoc(collection(db, "vendorConfigs"), {
-    ...config,
-    createdAt: now,
-    updatedAt: now,
-  });
-  return {
-    ...config,
-    id: docRef.id,
-    createdAt: now.toDate(),
-    updatedAt: now.toDate(),
-  };
+  const docRef = doc(collection(db, "vendorConfigs").withConverter(vendorConfigConverter));
+  const now = new Date();
+  const created: VendorConfig = { ...config, id: docRef.id, createdAt: now, updatedAt: now };
+  await setDoc(docRef, created);
+  return created;
 }
 
 export async function updateVendorConfig(configId: string, data: Partial<VendorConfig>): Promise<void> {
-  const updateData = { ...data, updatedAt: Timestamp.now() };
-  delete (updateData as any).id;
-  delete (updateData as any).createdAt;
-  await updateDoc(doc(db, "vendorConfigs", configId), updateData);
+  await updateDoc(doc(db, "vendorConfigs", configId), toFirestoreUpdate(vendorConfigConverter, { ...data, updatedAt: new Date() }));
 }
 
-// ========== PRODUCTS ==========
-export interface Product {
-  id: string;
-  vendorId: string;
-  keyword: string;
-  shareCode?: string;
-  name: string;
-  price: number;
-  originalPrice?: number;
-  description?: string;
-  imageUrl?: string;
-  images?: string;
-  category?: string;
-  stock: number;
-  reservedStock: number;
-  active: boolean;
-  featured?: boolean;
-  createdAt: Date;
+// WhatsApp credentials go through the server and are never read back, only their status
+export async function getVendorSecretsStatus(): Promise<VendorSecretsStatus> {
+  const res = await apiRequest("GET", "/api/vendor/secrets");
+  return res.json();
+}
+
+export async function updateVendorSecrets(data: UpdateVendorSecretsInput): Promise<VendorSecretsStatus> {
+  const res = await apiRequest("PUT", "/api/vendor/secrets", data);
+  return res.json();
+}
+
+// The server keeps each phone_number_id unique across vendors; null disconnects it
+export async function updateWhatsAppPhoneNumberId(phoneNumberId: string | null): Promise<void> {
+  await apiRequest("PUT", "/api/vendor/phone-number-id", { phoneNumberId });
 }
 
+// ========== PUBLIC VENDOR PROFILE ==========
+
+function publicVendorProfileRef(vendorId: string) {
+  return doc(db, "publicVendorProfiles", vendorId).withConverter(publicVendorProfileConverter);
+}
+
+// Readable without auth: what the pay and product pages show about the vendor
+export async function getPublicVendorProfile(vendorId: string): Promise<PublicVendorProfile | null> {
+  const snap = await getDoc(publicVendorProfileRef(vendorId));
+  return snap.exists() ? snap.data() : null;
+}
+
+// Rebuilt from the profile and config after either is saved
+export async function syncPublicVendorProfile(vendorId: string): Promise<void> {
+  const [user, config] = await Promise.all([getUserProfile(vendorId), getVendorConfig(vendorId)]);
+  await setDoc(publicVendorProfileRef(vendorId), publicVendorProfileFrom(vendorId, user, config));
+}
+
+// ========== PRODUCTS ==========
 function generateShareCode(): string {
   const chars = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
   let code = "";
@@ -284,63 +295,45 @@ function generateShareCode(): string {
 
 export async function getProducts(vendorId: string): Promise<Product[]> {
   const q = query(
-    collection(db, "products"), 
+    collection(db, "products").withConverter(productConverter), 
     where("vendorId", "==", vendorId),
     orderBy("createdAt", "desc")
   );
   const snap = await getDocs(q);
-  return snap.docs.map(d => ({
-    ...d.data(),
-    id: d.id,
-    createdAt: d.data().createdAt?.toDate() || new Date(),
-  })) as Product[];
+  return readDocuments(snap.docs);
 }
 
 export async function getProduct(productId: string): Promise<Product | null> {
-  const docRef = doc(db, "products", productId);
-  const snap = await getDoc(docRef);
-  if (!snap.exists()) return null;
-  return {
-    ...snap.data(),
-    id: snap.id,
-    createdAt: snap.data().createdAt?.toDate() || new Date(),
-  } as Product;
+  const snap = await getDoc(doc(db, "products", productId).withConverter(productConverter));
+  return snap.exists() ? snap.data() : null;
 }
 
+// Public share links: the rules only let anonymous queries see active products
 export async function getProductByShareCode(code: string): Promise<Product | null> {
-  const q = query(collection(db, "products"), where("shareCode", "==", code));
+  const q = query(
+    collection(db, "products").withConverter(productConverter),
+    where("shareCode", "==", code),
+    where("active", "==", true)
+  );
   const snap = await getDocs(q);
-  if (snap.empty) return null;
-  const d = snap.docs[0];
-  return {
-    ...d.data(),
-    id: d.id,
-    createdAt: d.data().createdAt?.toDate() || new Date(),
-  } as Product;
+  return snap.empty ? null : snap.docs[0].data();
 }
 
 export async function createProduct(data: Omit<Product, "id" | "createdAt" | "shareCode" | "reservedStock">): Promise<Product> {
-  const shareCode = generateShareCode();
-  const docRef = await addDoc(collection(db, "products"), {
-    ...data,
-    shareCode,
-    reservedStock: 0,
-    createdAt: Timestamp.now(),
-  });
-  return {
+  const docRef = doc(collection(db, "products").withConverter(productConverter));
+  const created: Product = {
     ...data,
     id: docRef.id,
-    shareCode,
+    shareCode: generateShareCode(),
     reservedStock: 0,
     createdAt: new Date(),
   };
+  await setDoc(docRef, created);
+  return created;
 }
 
 export async function updateProduct(productId: string, data: Partial<Product>): Promise<void> {
-  const updateData = { ...data };
-  delete (updateData as any).id;
-  delete (updateData as any).createdAt;
-  await updateDoc(doc(db, "products", productId), updateData);
+  await updateDoc(doc(db, "products", productId), toFirestoreUpdate(productConverter, data));
 }
 
 export async function deleteProduct(productId: string): Promise<void> {
@@ -348,215 +341,351 @@ export async function deleteProduct(productId: string): Promise<void> {
 }
 
 // ========== ORDERS ==========
-export type OrderStatus = "pending" | "reserved" | "paid" | "expired" | "cancelled";
-export type PaymentMethod = "wave" | "orange_money" | "card" | "cash";
-
-export interface Order {
-  id: string;
-  vendorId: string;
-  productId: string;
-  clientId?: string;
-  clientPhone: string;
-  clientName?: string;
-  quantity: number;
-  totalAmount: number;
-  status: OrderStatus;
-  paymentMethod?: PaymentMethod;
-  paymentReference?: string;
-  paymentProof?: string;
-  reservedUntil?: Date;
-  paidAt?: Date;
-  notes?: string;
-  deliveryAddress?: string;
-  createdAt: Date;
-  updatedAt: Date;
-}
-
 export async function getOrders(vendorId: string): Promise<Order[]> {
   const q = query(
-    collection(db, "orders"), 
+    collection(db, "orders").withConverter(orderConverter), 
     where("vendorId", "==", vendorId),
     orderBy("createdAt", "desc")
   );
   const snap = await getDocs(q);
-  return snap.docs.map(d => {
-    const data = d.data();
-    return {
-      ...data,
-      id: d.id,
-      createdAt: data.createdAt?.toDate() || new Date(),
-      updatedAt: data.updatedAt?.toDate() || new Date(),
-      reservedUntil: data.reservedUntil?.toDate(),
-      paidAt: data.paidAt?.toDate(),
-    };
-  }) as Order[];
+  return readDocuments(snap.docs);
 }
 
-export async function createOrder(data: Omit<Order, "id" | "createdAt" | "updatedAt">): Promise<Order> {
-  const now = Timestamp.now();
-  const docRef = await addDoc(collection(db, "orders"), {
-    ...data,
-    reservedUntil: data.reservedUntil ? Timestamp.fromDate(data.reservedUntil) : null,
-    paidAt: data.paidAt ? Timestamp.fromDate(data.paidAt) : null,
-    createdAt: now,
-    updatedAt: now,
-  });
+export interface OrderFilters {
+  status?: OrderStatus;
+  productId?: string;
+  clientPhone?: string;
+  from?: Date;
+  // Exclusive upper bound
+  to?: Date;
+}
+
+export type OrderCursor = QueryDocumentSnapshot<Order>;
+
+export interface OrderPage {
+  orders: Order[];
+  // Last document of the page, passed back to get the next one
+  cursor: OrderCursor | null;
+  hasMore: boolean;
+}
+
+export const ORDERS_PAGE_SIZE = 25;
+
+// Each equality filter has a (vendorId, field, createdAt desc) index in firestore.indexes.json;
+// Firestore merges them when several filters are combined
+function orderQueryConstraints(vendorId: string, filters: OrderFilters): QueryConstraint[] {
+  const constraints: QueryConstraint[] = [where("vendorId", "==", vendorId)];
+  if (filters.status) constraints.push(where("status", "==", filters.status));
+  if (filters.productId) constraints.push(where("productId", "==", filters.productId));
+  // WhatsApp numbers are stored as digits only (e.g. 221771234567)
+  const phone = filters.clientPhone && normalizePhone(filters.clientPhone);
+  if (phone) constraints.push(where("clientPhone", "==", phone));
+  if (filters.from) constraints.push(where("createdAt", ">=", filters.from));
+  if (filters.to) constraints.push(where("createdAt", "<", filters.to));
+  constraints.push(orderBy("createdAt", "desc"));
+  return constraints;
+}
+
+export async function getOrdersPage(
+  vendorId: string,
+  filters: OrderFilters = {},
+  cursor: OrderCursor | null = null,
+  pageSize = ORDERS_PAGE_SIZE
+): Promise<OrderPage> {
+  const q = query(
+    collection(db, "orders").withConverter(orderConverter),
+    ...orderQueryConstraints(vendorId, filters),
+    ...(cursor ? [startAfter(cursor)] : []),
+    // One extra document tells whether another page exists
+    limit(pageSize + 1)
+  );
+  const snap = await getDocs(q);
+  const docs = snap.docs.slice(0, pageSize);
   return {
-    ...data,
-    id: docRef.id,
-    createdAt: now.toDate(),
-    updatedAt: now.toDate(),
+    orders: readDocuments(docs),
+    cursor: docs[docs.length - 1] ?? null,
+    hasMore: snap.docs.length > pageSize,
   };
 }
 
-export async function updateOrder(orderId: string, data: Partial<Order>): Promise<void> {
-  const updateData: any = { ...data, updatedAt: Timestamp.now() };
-  delete updateData.id;
-  delete updateData.createdAt;
-  if (data.reservedUntil) updateData.reservedUntil = Timestamp.fromDate(data.reservedUntil);
-  if (data.paidAt) updateData.paidAt = Timestamp.fromDate(data.paidAt);
-  await updateDoc(doc(db, "orders", orderId), updateData);
+/**
+ * Live feed of the vendor's orders matching `filters`, newest first.
+ * `since` bounds the feed to what the first page covers, so it grows with
+ * new orders instead of pushing older ones out. Returns the unsubscribe function.
+ */
+export function subscribeToOrders(
+  vendorId: string,
+  callback: (orders: Order[], cursor: OrderCursor | null) => void,
+  options: { filters?: OrderFilters; since?: Date; onError?: (error: Error) => void } = {}
+): () => void {
+  const filters = { ...options.filters };
+  if (options.since && (!filters.from || options.since > filters.from)) filters.from = options.since;
+  const q = query(
+    collection(db, "orders").withConverter(orderConverter),
+    ...orderQueryConstraints(vendorId, filters)
+  );
+  return onSnapshot(
+    q,
+    (snap) => callback(readDocuments(snap.docs), snap.docs[snap.docs.length - 1] ?? null),
+    options.onError
+  );
 }
 
-// ========== LIVE SESSIONS ==========
-export interface LiveSession {
-  id: string;
-  vendorId: string;
-  title: string;
-  platform: string;
-  active: boolean;
-  createdAt: Date;
-  endedAt?: Date;
+export interface OrderStats {
+  pending: number;
+  reserved: number;
+  paid: number;
+  expired: number;
+  totalRevenue: number;
+}
+
+// From the vendorStats counters the server keeps up to date (server/stats.ts)
+export async function getOrderStats(vendorId: string): Promise<OrderStats> {
+  const snap = await getDoc(doc(db, "vendorStats", vendorId).withConverter(vendorStatsConverter));
+  const stats = snap.data();
+  const counts = stats?.statusCounts ?? {};
+  return {
+    pending: counts.pending || 0,
+    reserved: counts.reserved || 0,
+    paid: counts.paid || 0,
+    expired: counts.expired || 0,
+    totalRevenue: stats?.revenue || 0,
+  };
 }
 
+// Day documents between two yyyy-mm-dd dates (inclusive), oldest first
+export async function getVendorDailyStats(vendorId: string, fromDay: string, toDay: string): Promise<VendorStats[]> {
+  const q = query(
+    collection(db, "vendorStats", vendorId, "days").withConverter(vendorStatsConverter),
+    where("date", ">=", fromDay),
+    where("date", "<=", toDay),
+    orderBy("date", "asc")
+  );
+  const snap = await getDocs(q);
+  return readDocuments(snap.docs);
+}
+
+// Orders hold stock, so they are created by the server (server/reservations.ts)
+export async function createOrder(data: CreateOrderInput): Promise<Order> {
+  const res = await apiRequest("POST", "/api/orders", data);
+  const { orderId } = await res.json();
+  const order = await getOrder(orderId);
+  if (!order) throw new Error("Erreur création commande");
+  return order;
+}
+
+// Status is not writable here: use updateOrderStatus (shared/order-status.ts)
+export async function updateOrder(orderId: string, data: Partial<Omit<Order, "status">>): Promise<void> {
+  const updateData: Partial<Order> = { ...data, updatedAt: new Date() };
+  delete updateData.status;
+  await updateDoc(doc(db, "orders", orderId), toFirestoreUpdate(orderConverter, updateData));
+}
+
+// Paying commits the reserved stock, cancelling releases it (server side)
+export async function updateOrderStatus(
+  orderId: string,
+  status: "paid" | "cancelled",
+  paymentMethod?: PaymentMethod
+): Promise<void> {
+  await apiRequest("POST", `/api/orders/${orderId}/status`, { status, paymentMethod });
+}
+
+export async function getOrderStatusHistory(orderId: string): Promise<OrderStatusChange[]> {
+  const q = query(
+    collection(db, "orders", orderId, "statusHistory").withConverter(orderStatusChangeConverter),
+    orderBy("createdAt", "asc")
+  );
+  const snap = await getDocs(q);
+  return readDocuments(snap.docs);
+}
+
+// ========== LIVE SESSIONS ==========
 export async function getLiveSessions(vendorId: string): Promise<LiveSession[]> {
   const q = query(
-    collection(db, "liveSessions"), 
+    collection(db, "liveSessions").withConverter(liveSessionConverter), 
     where("vendorId", "==", vendorId),
     orderBy("createdAt", "desc")
   );
   const snap = await getDocs(q);
-  return snap.docs.map(d => {
-    const data = d.data();
-    return {
-      ...data,
-      id: d.id,
-      createdAt: data.createdAt?.toDate() || new Date(),
-      endedAt: data.endedAt?.toDate(),
-    };
-  }) as LiveSession[];
+  return readDocuments(snap.docs);
 }
 
-export async function createLiveSession(data: Omit<LiveSession, "id" | "createdAt" | "active">): Promise<LiveSession> {
-  const docRef = await addDoc(collection(db, "liveSessions"), {
-    ...data,
-    active: true,
-    createdAt: Timestamp.now(),
-  });
-  return {
+// The session in progress, if any (there is at most one per vendor)
+export async function getActiveLiveSession(vendorId: string): Promise<LiveSession | null> {
+  const q = query(
+    collection(db, "liveSessions").withConverter(liveSessionConverter),
+    where("vendorId", "==", vendorId),
+    where("active", "==", true),
+    limit(1)
+  );
+  const snap = await getDocs(q);
+  return snap.empty ? null : snap.docs[0].data();
+}
+
+// Orders placed while the session was active, newest first
+export async function getLiveSessionOrders(vendorId: string, sessionId: string): Promise<Order[]> {
+  const q = query(
+    collection(db, "orders").withConverter(orderConverter),
+    where("vendorId", "==", vendorId),
+    where("sessionId", "==", sessionId),
+    orderBy("createdAt", "desc")
+  );
+  const snap = await getDocs(q);
+  return readDocuments(snap.docs);
+}
+
+export async function createLiveSession(
+  data: Pick<LiveSession, "vendorId" | "title" | "platform"> & Partial<Pick<LiveSession, "lineup">>
+): Promise<LiveSession> {
+  const docRef = doc(collection(db, "liveSessions").withConverter(liveSessionConverter));
+  // The overlay token is the id of the session's public liveOverlays document
+  const overlayRef = doc(collection(db, "liveOverlays").withConverter(liveOverlayConverter));
+  const created: LiveSession = {
+    lineup: [],
     ...data,
     id: docRef.id,
     active: true,
+    currentIndex: 0,
+    reservedByProduct: {},
+    overlayToken: overlayRef.id,
     createdAt: new Date(),
   };
+  const overlay: LiveOverlay = {
+    id: overlayRef.id,
+    vendorId: data.vendorId,
+    sessionId: docRef.id,
+    active: true,
+    showing: created.lineup[0] ?? null,
+    reservedByProduct: {},
+    recentOrders: [],
+    updatedAt: new Date(),
+  };
+
+  const batch = writeBatch(db);
+  batch.set(docRef, created);
+  batch.set(overlayRef, overlay);
+  await batch.commit();
+  return created;
 }
 
 export async function updateLiveSession(sessionId: string, data: Partial<LiveSession>): Promise<void> {
-  const updateData: any = { ...data };
-  delete updateData.id;
-  delete updateData.createdAt;
-  if (data.endedAt) updateData.endedAt = Timestamp.fromDate(data.endedAt);
-  await updateDoc(doc(db, "liveSessions", sessionId), updateData);
+  await updateDoc(doc(db, "liveSessions", sessionId), toFirestoreUpdate(liveSessionConverter, data));
 }
 
-// ========== INVOICES ==========
-export type InvoiceStatus = "pending" | "paid" | "expired" | "cancelled";
+// ========== LIVE OVERLAY ==========
+// Vendor side: what the stream overlay shows (counters and ticker come from the server)
+export async function updateLiveOverlay(token: string, data: Partial<Pick<LiveOverlay, "active" | "showing">>): Promise<void> {
+  await updateDoc(
+    doc(db, "liveOverlays", token),
+    toFirestoreUpdate(liveOverlayConverter, { ...data, updatedAt: new Date() })
+  );
+}
 
-export interface Invoice {
-  id: string;
-  vendorId: string;
-  productId?: string;
-  clientPhone: string;
-  amount: number;
-  description?: string;
-  status: InvoiceStatus;
-  paymentMethod?: PaymentMethod;
-  paymentReference?: string;
-  dueDate?: Date;
-  paidAt?: Date;
-  createdAt: Date;
+// Public: the overlay page only knows the token
+export function subscribeToLiveOverlay(
+  token: string,
+  callback: (overlay: LiveOverlay | null) => void,
+  onError?: (error: Error) => void
+): () => void {
+  return onSnapshot(
+    doc(db, "liveOverlays", token).withConverter(liveOverlayConverter),
+    (snap) => callback(readDocument(snap)),
+    onError
+  );
 }
 
+// Public: active products can be read without an account
+export function subscribeToProduct(
+  productId: string,
+  callback: (product: Product | null) => void,
+  onError?: (error: Error) => void
+): () => void {
+  return onSnapshot(
+    doc(db, "products", productId).withConverter(productConverter),
+    (snap) => callback(readDocument(snap)),
+    onError
+  );
+}
+
+// ========== INVOICES ==========
 export async function getInvoices(vendorId: string): Promise<Invoice[]> {
   const q = query(
-    collection(db, "invoices"), 
+    collection(db, "invoices").withConverter(invoiceConverter), 
     where("vendorId", "==", vendorId),
     orderBy("createdAt", "desc")
   );
   const snap = await getDocs(q);
-  return snap.docs.map(d => {
-    const data = d.data();
-    return {
-      ...data,
-      id: d.id,
-      createdAt: data.createdAt?.toDate() || new Date(),
-      dueDate: data.dueDate?.toDate(),
-      paidAt: data.paidAt?.toDate(),
-    };
-  }) as Invoice[];
+  return readDocuments(snap.docs);
 }
 
 export async function createInvoice(data: Omit<Invoice, "id" | "createdAt">): Promise<Invoice> {
-  const docRef = await addDoc(collection(db, "invoices"), {
-    ...data,
-    dueDate: data.dueDate ? Timestamp.fromDate(data.dueDate) : null,
-    paidAt: data.paidAt ? Timestamp.fromDate(data.paidAt) : null,
-    createdAt: Timestamp.now(),
-  });
-  return {
-    ...data,
-    id: docRef.id,
-    createdAt: new Date(),
-  };
+  const docRef = doc(collection(db, "invoices").withConverter(invoiceConverter));
+  const created: Invoice = { ...data, id: docRef.id, createdAt: new Date() };
+  await setDoc(docRef, created);
+  return created;
 }
 
 export async function updateInvoice(invoiceId: string, data: Partial<Invoice>): Promise<void> {
-  const updateData: any = { ...data };
-  delete updateData.id;
-  delete updateData.createdAt;
-  if (data.dueDate) updateData.dueDate = Timestamp.fromDate(data.dueDate);
-  if (data.paidAt) updateData.paidAt = Timestamp.fromDate(data.paidAt);
-  await updateDoc(doc(db, "invoices", invoiceId), updateData);
+  await updateDoc(doc(db, "invoices", invoiceId), toFirestoreUpdate(invoiceConverter, data));
 }
 
 export async function getInvoiceById(invoiceId: string): Promise<Invoice | null> {
-  const docRef = doc(db, "invoices", invoiceId);
-  const snap = await getDoc(docRef);
-  if (!snap.exists()) return null;
-  const data = snap.data();
-  return {
-    ...data,
-    id: snap.id,
-    createdAt: data.createdAt?.toDate() || new Date(),
-    dueDate: data.dueDate?.toDate(),
-    paidAt: data.paidAt?.toDate(),
-  } as Invoice;
-}
-
-export async function getOrderByToken(token: string): Promise<Order | null> {
-  // Token can be the order ID directly
-  const docRef = doc(db, "orders", token);
-  const snap = await getDoc(docRef);
-  if (!snap.exists()) return null;
-  const data = snap.data();
-  return {
-    ...data,
-    id: snap.id,
-    createdAt: data.createdAt?.toDate() || new Date(),
-    updatedAt: data.updatedAt?.toDate() || new Date(),
-    reservedUntil: data.reservedUntil?.toDate(),
-    paidAt: data.paidAt?.toDate(),
-  } as Order;
+  const snap = await getDoc(doc(db, "invoices", invoiceId).withConverter(invoiceConverter));
+  return snap.exists() ? snap.data() : null;
+}
+
+// ========== CLIENTS (CRM) ==========
+// Maintained by the server from the orders (server/clients.ts), sorted here by last order
+export async function getClients(vendorId: string): Promise<Client[]> {
+  const q = query(collection(db, "clients").withConverter(clientConverter), where("vendorId", "==", vendorId));
+  const snap = await getDocs(q);
+  const lastActivity = (c: Client) => (c.lastOrderAt || c.updatedAt).getTime();
+  return readDocuments(snap.docs).sort((a, b) => lastActivity(b) - lastActivity(a));
+}
+
+export async function getClientOrders(vendorId: string, clientPhone: string): Promise<Order[]> {
+  const q = query(
+    collection(db, "orders").withConverter(orderConverter),
+    where("vendorId", "==", vendorId),
+    where("clientPhone", "==", clientPhone),
+    orderBy("createdAt", "desc"),
+    limit(50)
+  );
+  const snap = await getDocs(q);
+  return readDocuments(snap.docs);
+}
+
+export async function updateClient(clientId: string, data: ClientProfileUpdate): Promise<void> {
+  await updateDoc(doc(db, "clients", clientId), toFirestoreUpdate(clientConverter, { ...data, updatedAt: new Date() }));
+}
+
+export async function getOrder(orderId: string): Promise<Order | null> {
+  const snap = await getDoc(doc(db, "orders", orderId).withConverter(orderConverter));
+  return snap.exists() ? snap.data() : null;
+}
+
+// ========== PAYMENT ==========
+// Pay links carry a random token, resolved by the server only (server/payment-links.ts)
+export async function getPaymentLink(token: string): Promise<PaymentLinkView | null> {
+  const res = await fetch(`/api/pay/${encodeURIComponent(token)}`);
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+  return res.json();
+}
+
+export interface PaymentCharge {
+  paymentMethod: PaymentMethod;
+  amount: number;
+  vendorPhone?: string;
+  redirectUrl?: string;
+  ussdCode?: string;
+  instructions?: string;
+}
+
+// Starts the payment at the PSP (server/payments); the order is confirmed by its webhook
+export async function createPaymentCharge(token: string, paymentMethod: PaymentMethod): Promise<PaymentCharge> {
+  const res = await apiRequest("POST", `/api/pay/${token}/charge`, { paymentMethod });
+  return res.json();
 }
 
 // ========== FILE UPLOAD ==========
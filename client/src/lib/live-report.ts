@@ -0,0 +1,291 @@
+import type { LiveSession, Order, OrderStatus } from "./firebase";
+import { formatPrice } from "@shared/format";
+
+/**
+ * Post-live report for a LiveSession
+ * Built from the session's orders (sessionId), exported as CSV (Excel, French
+ * locale) or as a printable page the browser saves to PDF.
+ */
+
+const STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "En attente",
+  reserved: "Réservé",
+  paid: "Payé",
+  expired: "Expiré",
+  cancelled: "Annulé",
+};
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  wave: "Wave",
+  orange_money: "Orange Money",
+  card: "Carte",
+  cash: "Espèces",
+  unknown: "Non précisé",
+};
+
+const PLATFORM_LABELS: Record<string, string> = {
+  tiktok: "TikTok",
+  facebook: "Facebook",
+  instagram: "Instagram",
+  whatsapp_status: "Statut WhatsApp",
+};
+
+export interface ReportTotal {
+  label: string;
+  orders: number;
+  amount: number;
+}
+
+// Units per product: reserved during the live, then sold, given back or still held
+export interface StockMovement {
+  productId: string;
+  productName: string;
+  reserved: number;
+  sold: number;
+  released: number;
+  held: number;
+}
+
+export interface LiveReport {
+  session: LiveSession;
+  orders: Order[];
+  byStatus: ReportTotal[];
+  // Paid orders only
+  byPaymentMethod: ReportTotal[];
+  expired: Order[];
+  stockMovements: StockMovement[];
+  revenue: number;
+  unpaidAmount: number;
+}
+
+function addTotal(totals: Map<string, ReportTotal>, label: string, amount: number) {
+  const total = totals.get(label) ?? { label, orders: 0, amount: 0 };
+  total.orders++;
+  total.amount += amount;
+  totals.set(label, total);
+}
+
+export function buildLiveReport(session: LiveSession, orders: Order[]): LiveReport {
+  const sorted = [...orders].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  const byStatus = new Map<string, ReportTotal>();
+  const byPaymentMethod = new Map<string, ReportTotal>();
+  const movements = new Map<string, StockMovement>();
+  let revenue = 0;
+  let unpaidAmount = 0;
+
+  for (const order of sorted) {
+    addTotal(byStatus, STATUS_LABELS[order.status], order.totalAmount);
+
+    const movement = movements.get(order.productId) ?? {
+      productId: order.productId,
+      productName: order.productName || "Produit",
+      reserved: 0,
+      sold: 0,
+      released: 0,
+      held: 0,
+    };
+    movement.reserved += order.quantity;
+
+    if (order.status === "paid") {
+      revenue += order.totalAmount;
+      movement.sold += order.quantity;
+      addTotal(byPaymentMethod, PAYMENT_METHOD_LABELS[order.paymentMethod || "unknown"], order.totalAmount);
+    } else if (order.status === "expired" || order.status === "cancelled") {
+      movement.released += order.quantity;
+    } else {
+      unpaidAmount += order.totalAmount;
+      movement.held += order.quantity;
+    }
+    movements.set(order.productId, movement);
+  }
+
+  return {
+    session,
+    orders: sorted,
+    byStatus: Array.from(byStatus.values()),
+    byPaymentMethod: Array.from(byPaymentMethod.values()).sort((a, b) => b.amount - a.amount),
+    expired: sorted.filter((o) => o.status === "expired"),
+    stockMovements: Array.from(movements.values()).sort((a, b) => b.reserved - a.reserved),
+    revenue,
+    unpaidAmount,
+  };
+}
+
+const formatDateTime = (date: Date) => {
+  return date.toLocaleString("fr-FR", { dateStyle: "short", timeStyle: "short" });
+};
+
+function reportFileName(report: LiveReport, extension: string): string {
+  const day = report.session.createdAt.toISOString().slice(0, 10);
+  const title = report.session.title.normalize("NFD").replace(/[^\w]+/g, "-").replace(/^-|-$/g, "").toLowerCase();
+  return `live-${day}-${title || report.session.id}.${extension}`;
+}
+
+// ========== CSV ==========
+
+// Semicolons and a BOM: what Excel expects with a French locale.
+// Text starting like a formula (product or client names are typed by others)
+// is prefixed with ' so the spreadsheet shows it instead of running it.
+function csvCell(value: string | number): string {
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[";\n\r\t]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRows(rows: (string | number)[][]): string {
+  return rows.map((row) => row.map(csvCell).join(";")).join("\r\n");
+}
+
+export function liveReportCsv(report: LiveReport): string {
+  const { session } = report;
+  const sections = [
+    csvRows([
+      ["Live", session.title],
+      ["Plateforme", PLATFORM_LABELS[session.platform] || session.platform],
+      ["Début", formatDateTime(session.createdAt)],
+      ["Fin", session.endedAt ? formatDateTime(session.endedAt) : "En cours"],
+      ["Chiffre d'affaires (FCFA)", report.revenue],
+      ["Non payé (FCFA)", report.unpaidAmount],
+    ]),
+    csvRows([
+      ["Date", "Référence", "Client", "Téléphone", "Produit", "Quantité", "Prix unitaire", "Total", "Statut", "Paiement"],
+      ...report.orders.map((order) => [
+        formatDateTime(order.createdAt),
+        order.id.slice(-6).toUpperCase(),
+        order.clientName || "",
+        order.clientPhone,
+        order.productName || "",
+        order.quantity,
+        order.unitPrice,
+        order.totalAmount,
+        STATUS_LABELS[order.status],
+        order.status === "paid" ? PAYMENT_METHOD_LABELS[order.paymentMethod || "unknown"] : "",
+      ]),
+    ]),
+    csvRows([
+      ["Statut", "Commandes", "Montant"],
+      ...report.byStatus.map((t) => [t.label, t.orders, t.amount]),
+    ]),
+    csvRows([
+      ["Moyen de paiement", "Commandes", "Montant"],
+      ...report.byPaymentMethod.map((t) => [t.label, t.orders, t.amount]),
+    ]),
+    csvRows([
+      ["Produit", "Réservé", "Vendu", "Remis en stock", "Encore réservé"],
+      ...report.stockMovements.map((m) => [m.productName, m.reserved, m.sold, m.released, m.held]),
+    ]),
+  ];
+  return sections.join("\r\n\r\n");
+}
+
+export function downloadLiveReportCsv(report: LiveReport): void {
+  const blob = new Blob(["\uFEFF" + liveReportCsv(report)], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = reportFileName(report, "csv");
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// ========== PRINTABLE (PDF) ==========
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function htmlTable(headers: string[], rows: (string | number)[][]): string {
+  if (rows.length === 0) return "<p class=\"empty\">Aucune donnée</p>";
+  const head = headers.map((h) => `<th>${escapeHtml(h)}</th>`).join("");
+  const body = rows
+    .map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(String(cell))}</td>`).join("")}</tr>`)
+    .join("");
+  return `<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`;
+}
+
+export function liveReportHtml(report: LiveReport): string {
+  const { session } = report;
+  const totals = (list: ReportTotal[]) => list.map((t) => [t.label, t.orders, formatPrice(t.amount)]);
+
+  return `<!DOCTYPE html>
+<html lang="fr">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(reportFileName(report, "pdf"))}</title>
+<style>
+  body { font-family: system-ui, sans-serif; font-size: 12px; color: #111; margin: 24px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 24px 0 8px; }
+  .meta { color: #555; margin-bottom: 16px; }
+  .kpis { display: flex; gap: 24px; }
+  .kpis strong { display: block; font-size: 16px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border-bottom: 1px solid #ddd; padding: 4px 6px; text-align: left; }
+  th { background: #f3f4f6; }
+  .empty { color: #777; }
+  @page { margin: 12mm; }
+</style>
+</head>
+<body>
+<h1>Rapport du live : ${escapeHtml(session.title)}</h1>
+<p class="meta">
+  ${escapeHtml(PLATFORM_LABELS[session.platform] || session.platform)} ·
+  ${escapeHtml(formatDateTime(session.createdAt))} → ${escapeHtml(session.endedAt ? formatDateTime(session.endedAt) : "en cours")}
+</p>
+<div class="kpis">
+  <div>Commandes<strong>${report.orders.length}</strong></div>
+  <div>Chiffre d'affaires<strong>${escapeHtml(formatPrice(report.revenue))}</strong></div>
+  <div>Non payé<strong>${escapeHtml(formatPrice(report.unpaidAmount))}</strong></div>
+  <div>Réservations expirées<strong>${report.expired.length}</strong></div>
+</div>
+<h2>Totaux par statut</h2>
+${htmlTable(["Statut", "Commandes", "Montant"], totals(report.byStatus))}
+<h2>Paiements par moyen</h2>
+${htmlTable(["Moyen de paiement", "Commandes", "Montant"], totals(report.byPaymentMethod))}
+<h2>Mouvements de stock</h2>
+${htmlTable(
+  ["Produit", "Réservé", "Vendu", "Remis en stock", "Encore réservé"],
+  report.stockMovements.map((m) => [m.productName, m.reserved, m.sold, m.released, m.held])
+)}
+<h2>Réservations expirées</h2>
+${htmlTable(
+  ["Date", "Client", "Produit", "Quantité", "Montant"],
+  report.expired.map((o) => [
+    formatDateTime(o.createdAt),
+    o.clientName || o.clientPhone,
+    o.productName || "",
+    o.quantity,
+    formatPrice(o.totalAmount),
+  ])
+)}
+<h2>Commandes</h2>
+${htmlTable(
+  ["Date", "Client", "Téléphone", "Produit", "Qté", "Total", "Statut", "Paiement"],
+  report.orders.map((o) => [
+    formatDateTime(o.createdAt),
+    o.clientName || "",
+    o.clientPhone,
+    o.productName || "",
+    o.quantity,
+    formatPrice(o.totalAmount),
+    STATUS_LABELS[o.status],
+    o.status === "paid" ? PAYMENT_METHOD_LABELS[o.paymentMethod || "unknown"] : "",
+  ])
+)}
+</body>
+</html>`;
+}
+
+// Opens the report in a new window and the print dialog ("Enregistrer au format PDF")
+export function printLiveReport(report: LiveReport): boolean {
+  const popup = window.open("", "_blank");
+  if (!popup) return false;
+  popup.document.write(liveReportHtml(report));
+  popup.document.close();
+  popup.focus();
+  popup.print();
+  return true;
+}
@@ -0,0 +1,37 @@
+import { loadSettings } from "./vendor-settings";
+
+// Short two-tone chime generated with Web Audio (no asset to ship or cache)
+let audioContext: AudioContext | null = null;
+
+function getAudioContext(): AudioContext | null {
+  if (typeof window === "undefined" || !window.AudioContext) return null;
+  if (!audioContext) audioContext = new AudioContext();
+  return audioContext;
+}
+
+function playTone(ctx: AudioContext, frequency: number, start: number, volume: number): void {
+  const oscillator = ctx.createOscillator();
+  const gain = ctx.createGain();
+  oscillator.type = "sine";
+  oscillator.frequency.value = frequency;
+  gain.gain.setValueAtTime(volume, start);
+  gain.gain.exponentialRampToValueAtTime(0.001, start + 0.25);
+  oscillator.connect(gain).connect(ctx.destination);
+  oscillator.start(start);
+  oscillator.stop(start + 0.25);
+}
+
+// Plays the new-order chime, honouring enableSoundNotifications / notificationVolume
+export function playOrderNotification(): void {
+  const { enableSoundNotifications, notificationVolume } = loadSettings();
+  if (!enableSoundNotifications || notificationVolume <= 0) return;
+
+  const ctx = getAudioContext();
+  if (!ctx) return;
+  // Browsers keep the context suspended until a user gesture; nothing plays before that
+  if (ctx.state === "suspended") ctx.resume().catch(() => {});
+
+  const volume = Math.min(notificationVolume, 100) / 100;
+  playTone(ctx, 880, ctx.currentTime, volume);
+  playTone(ctx, 1320, ctx.currentTime + 0.15, volume);
+}
@@ -0,0 +1,34 @@
+// Settings locaux (localStorage), propres à cet appareil
+const SETTINGS_KEY = "livepay_vendor_settings";
+
+export interface VendorSettings {
+  enableSoundNotifications: boolean;
+  notificationVolume: number;
+  defaultPaymentMethod: string;
+}
+
+export const defaultSettings: VendorSettings = {
+  enableSoundNotifications: true,
+  notificationVolume: 50,
+  defaultPaymentMethod: "wave",
+};
+
+export function loadSettings(): VendorSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (saved) {
+      return { ...defaultSettings, ...JSON.parse(saved) };
+    }
+  } catch (error) {
+    console.error("Failed to load settings:", error);
+  }
+  return defaultSettings;
+}
+
+export function saveSettings(settings: VendorSettings): void {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Failed to save settings:", error);
+  }
+}
@@ -0,0 +1,407 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CircleDollarSign, Percent, Timer, ShoppingCart } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useDailyStats } from "@/hooks/use-analytics";
+import { getProducts, type VendorStats } from "@/lib/firebase";
+import { averagePaymentTimeSeconds, PAYMENT_TIME_BUCKETS } from "@shared/types";
+import { formatPrice } from "@shared/format";
+
+const RANGES = [
+  { days: 7, label: "7 jours" },
+  { days: 30, label: "30 jours" },
+  { days: 90, label: "90 jours" },
+];
+
+const paymentMethodLabels: Record<string, string> = {
+  wave: "Wave",
+  orange_money: "Orange Money",
+  card: "Carte",
+  cash: "Espèces",
+  unknown: "Non précisé",
+};
+
+const paymentTimeLabels: Record<string, string> = {
+  lt1m: "< 1 min",
+  "1to3m": "1-3 min",
+  "3to5m": "3-5 min",
+  "5to10m": "5-10 min",
+  gt10m: "> 10 min",
+};
+
+type Totals = Omit<VendorStats, "id" | "vendorId" | "date" | "updatedAt">;
+
+function emptyTotals(): Totals {
+  return {
+    keywordHits: 0,
+    keywordHitsByProduct: {},
+    ordersCreated: 0,
+    statusCounts: {},
+    reservationsByProduct: {},
+    paidOrdersByProduct: {},
+    revenue: 0,
+    revenueByPaymentMethod: {},
+    unitsByProduct: {},
+    paidOrdersByHour: {},
+    revenueByHour: {},
+    paymentTimeSecondsTotal: 0,
+    paymentTimeCount: 0,
+    paymentTimeBuckets: {},
+  };
+}
+
+function addRecord(target: Record<string, number>, source: Record<string, number | undefined>) {
+  for (const [key, value] of Object.entries(source)) {
+    target[key] = (target[key] || 0) + (value || 0);
+  }
+}
+
+// Sums the day documents of the selected range
+function sumDays(days: VendorStats[]): Totals {
+  const totals = emptyTotals();
+  for (const day of days) {
+    totals.keywordHits += day.keywordHits;
+    totals.ordersCreated += day.ordersCreated;
+    totals.revenue += day.revenue;
+    totals.paymentTimeSecondsTotal += day.paymentTimeSecondsTotal;
+    totals.paymentTimeCount += day.paymentTimeCount;
+    addRecord(totals.statusCounts, day.statusCounts);
+    addRecord(totals.keywordHitsByProduct, day.keywordHitsByProduct);
+    addRecord(totals.reservationsByProduct, day.reservationsByProduct);
+    addRecord(totals.paidOrdersByProduct, day.paidOrdersByProduct);
+    addRecord(totals.revenueByPaymentMethod, day.revenueByPaymentMethod);
+    addRecord(totals.unitsByProduct, day.unitsByProduct);
+    addRecord(totals.paidOrdersByHour, day.paidOrdersByHour);
+    addRecord(totals.revenueByHour, day.revenueByHour);
+    addRecord(totals.paymentTimeBuckets, day.paymentTimeBuckets);
+  }
+  return totals;
+}
+
+const formatPercent = (value: number, total: number) => {
+  return total > 0 ? `${Math.round((value / total) * 100)}%` : "-";
+};
+
+const formatDuration = (seconds: number | null) => {
+  if (seconds === null) return "-";
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes} min ${seconds % 60}s` : `${seconds}s`;
+};
+
+// Horizontal bar with its label and value
+function BarRow({ label, value, max, display }: { label: string; value: number; max: number; display: string }) {
+  const width = max > 0 ? Math.max((value / max) * 100, value > 0 ? 2 : 0) : 0;
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-sm">
+        <span>{label}</span>
+        <span className="font-medium">{display}</span>
+      </div>
+      <div className="h-2 rounded-full bg-muted">
+        <div className="h-2 rounded-full bg-green-600" style={{ width: `${width}%` }} />
+      </div>
+    </div>
+  );
+}
+
+export default function Analytics() {
+  const { user } = useAuth();
+  const [rangeDays, setRangeDays] = useState(30);
+  const { days, series, isLoading } = useDailyStats(rangeDays);
+
+  const { data: products = [] } = useQuery({
+    queryKey: ["products", user?.id],
+    queryFn: () => getProducts(user!.id),
+    enabled: !!user,
+  });
+  const productName = (id: string) => products.find((p) => p.id === id)?.name || "Produit supprimé";
+
+  const totals = sumDays(days);
+  const paid = totals.statusCounts.paid || 0;
+  const expired = totals.statusCounts.expired || 0;
+  const averagePaymentTime = averagePaymentTimeSeconds(totals);
+
+  const maxDailyRevenue = Math.max(0, ...series.map((d) => d.stats?.revenue || 0));
+  const funnel = [
+    { label: "Mot-clé envoyé", value: totals.keywordHits },
+    { label: "Réservées", value: totals.ordersCreated },
+    { label: "Payées", value: paid },
+    { label: "Expirées", value: expired },
+  ];
+  const funnelMax = Math.max(0, ...funnel.map((f) => f.value));
+
+  const productIds = Array.from(new Set([
+    ...Object.keys(totals.keywordHitsByProduct),
+    ...Object.keys(totals.reservationsByProduct),
+  ]));
+  const productRows = productIds
+    .map((id) => ({
+      id,
+      keywordHits: totals.keywordHitsByProduct[id] || 0,
+      reservations: totals.reservationsByProduct[id] || 0,
+      paid: totals.paidOrdersByProduct[id] || 0,
+      units: totals.unitsByProduct[id] || 0,
+    }))
+    .sort((a, b) => b.paid - a.paid || b.reservations - a.reservations);
+
+  const paymentMethods = Object.entries(totals.revenueByPaymentMethod).sort(([, a], [, b]) => b - a);
+  const bucketMax = Math.max(0, ...Object.values(totals.paymentTimeBuckets));
+  const hours = Array.from({ length: 24 }, (_, h) => String(h).padStart(2, "0"));
+  const hourMax = Math.max(0, ...hours.map((h) => totals.revenueByHour[h] || 0));
+  const bestHours = hours
+    .filter((h) => totals.paidOrdersByHour[h])
+    .sort((a, b) => (totals.revenueByHour[b] || 0) - (totals.revenueByHour[a] || 0))
+    .slice(0, 3);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold" data-testid="text-analytics-title">Analytique</h1>
+          <p className="text-muted-foreground">Ventes, conversion et paiements de vos lives</p>
+        </div>
+        <Tabs value={String(rangeDays)} onValueChange={(v) => setRangeDays(Number(v))}>
+          <TabsList>
+            {RANGES.map((range) => (
+              <TabsTrigger key={range.days} value={String(range.days)} data-testid={`tab-range-${range.days}`}>
+                {range.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[1, 2, 3, 4].map((i) => (
+              <Skeleton key={i} className="h-24" />
+            ))}
+          </div>
+          <Skeleton className="h-64" />
+        </div>
+      ) : (
+        <>
+          {/* KPIs */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Card className="bg-green-50 dark:bg-green-950/20">
+              <CardContent className="pt-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Chiffre d'affaires</p>
+                    <p className="text-lg font-bold text-green-600">{formatPrice(totals.revenue)}</p>
+                  </div>
+                  <CircleDollarSign className="h-8 w-8 text-green-500 opacity-50" />
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Commandes payées</p>
+                    <p className="text-2xl font-bold">{paid}</p>
+                  </div>
+                  <ShoppingCart className="h-8 w-8 text-primary opacity-50" />
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Réservation → paiement</p>
+                    <p className="text-2xl font-bold">{formatPercent(paid, totals.ordersCreated)}</p>
+                  </div>
+                  <Percent className="h-8 w-8 text-blue-500 opacity-50" />
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Temps moyen de paiement</p>
+                    <p className="text-2xl font-bold">{formatDuration(averagePaymentTime)}</p>
+                  </div>
+                  <Timer className="h-8 w-8 text-orange-500 opacity-50" />
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Revenue over time */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Chiffre d'affaires par jour</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-end gap-1 h-48" data-testid="chart-revenue">
+                {series.map(({ date, stats }) => {
+                  const revenue = stats?.revenue || 0;
+                  const height = maxDailyRevenue > 0 ? (revenue / maxDailyRevenue) * 100 : 0;
+                  return (
+                    <div key={date} className="flex-1 h-full flex items-end" title={`${date} : ${formatPrice(revenue)}`}>
+                      <div
+                        className="w-full rounded-t bg-green-600"
+                        style={{ height: `${Math.max(height, revenue > 0 ? 2 : 0)}%` }}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="flex justify-between text-xs text-muted-foreground mt-2">
+                <span>{series[0]?.date}</span>
+                <span>{series[series.length - 1]?.date}</span>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            {/* Funnel */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Entonnoir de conversion</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {funnel.map((step) => (
+                  <BarRow
+                    key={step.label}
+                    label={step.label}
+                    value={step.value}
+                    max={funnelMax}
+                    display={`${step.value} (${formatPercent(step.value, funnel[0].value)})`}
+                  />
+                ))}
+              </CardContent>
+            </Card>
+
+            {/* Payment methods */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Revenus par moyen de paiement</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {paymentMethods.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Aucun paiement sur la période</p>
+                ) : (
+                  paymentMethods.map(([method, amount]) => (
+                    <BarRow
+                      key={method}
+                      label={paymentMethodLabels[method] || method}
+                      value={amount}
+                      max={totals.revenue}
+                      display={`${formatPrice(amount)} (${formatPercent(amount, totals.revenue)})`}
+                    />
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Payment time distribution */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Délai de paiement</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {PAYMENT_TIME_BUCKETS.map(({ key }) => {
+                  const value = totals.paymentTimeBuckets[key] || 0;
+                  return (
+                    <BarRow
+                      key={key}
+                      label={paymentTimeLabels[key]}
+                      value={value}
+                      max={bucketMax}
+                      display={`${value} (${formatPercent(value, totals.paymentTimeCount)})`}
+                    />
+                  );
+                })}
+              </CardContent>
+            </Card>
+
+            {/* Best hours */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Meilleures heures de vente</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-end gap-0.5 h-32" data-testid="chart-hours">
+                  {hours.map((h) => {
+                    const revenue = totals.revenueByHour[h] || 0;
+                    const height = hourMax > 0 ? (revenue / hourMax) * 100 : 0;
+                    return (
+                      <div
+                        key={h}
+                        className="flex-1 h-full flex items-end"
+                        title={`${h}h : ${totals.paidOrdersByHour[h] || 0} commande(s), ${formatPrice(revenue)}`}
+                      >
+                        <div
+                          className="w-full rounded-t bg-blue-500"
+                          style={{ height: `${Math.max(height, revenue > 0 ? 2 : 0)}%` }}
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="flex justify-between text-xs text-muted-foreground mt-2">
+                  <span>0h</span>
+                  <span>12h</span>
+                  <span>23h</span>
+                </div>
+                {bestHours.length > 0 && (
+                  <p className="text-sm mt-4">
+                    Meilleurs créneaux : {bestHours.map((h) => `${h}h-${String(Number(h) + 1).padStart(2, "0")}h`).join(", ")}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Conversion per product */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Conversion par produit</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {productRows.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Aucune activité sur la période</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground border-b">
+                        <th className="py-2 font-medium">Produit</th>
+                        <th className="py-2 font-medium text-right">Mots-clés</th>
+                        <th className="py-2 font-medium text-right">Réservées</th>
+                        <th className="py-2 font-medium text-right">Payées</th>
+                        <th className="py-2 font-medium text-right">Unités</th>
+                        <th className="py-2 font-medium text-right">Conversion</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {productRows.map((row) => (
+                        <tr key={row.id} className="border-b last:border-0" data-testid={`row-product-${row.id}`}>
+                          <td className="py-2">{productName(row.id)}</td>
+                          <td className="py-2 text-right">{row.keywordHits}</td>
+                          <td className="py-2 text-right">{row.reservations}</td>
+                          <td className="py-2 text-right">{row.paid}</td>
+                          <td className="py-2 text-right">{row.units}</td>
+                          <td className="py-2 text-right font-medium">
+                            {formatPercent(row.paid, row.keywordHits || row.reservations)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
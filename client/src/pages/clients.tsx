@@ -0,0 +1,403 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Users, Phone, Search, MessageCircle, Save, Loader2, X, ShieldCheck, Crown } from "lucide-react";
+import { InitiateChatDialog } from "@/components/initiate-chat-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useClients, useClientOrders } from "@/hooks/use-clients";
+import type { Client, ClientProfileUpdate, ClientTier, OrderStatus } from "@/lib/firebase";
+import { formatPrice } from "@shared/format";
+
+const tierConfig: Record<ClientTier, { label: string; className: string }> = {
+  bronze: { label: "Bronze", className: "bg-amber-700 hover:bg-amber-700 text-white" },
+  silver: { label: "Argent", className: "bg-slate-400 hover:bg-slate-400 text-white" },
+  gold: { label: "Or", className: "bg-yellow-500 hover:bg-yellow-500 text-white" },
+  diamond: { label: "Diamant", className: "bg-cyan-500 hover:bg-cyan-500 text-white" },
+};
+
+const statusLabels: Record<OrderStatus, string> = {
+  pending: "En attente",
+  reserved: "Réservé",
+  paid: "Payé",
+  expired: "Expiré",
+  cancelled: "Annulé",
+};
+
+const ALL = "all";
+const MAX_TAGS = 20;
+
+const formatDate = (date: Date) => {
+  return date.toLocaleDateString("fr-FR", { day: "2-digit", month: "short", year: "numeric" });
+};
+
+const formatDuration = (seconds?: number) => {
+  if (seconds === undefined) return "-";
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes} min ${Math.round(seconds % 60)}s` : `${Math.round(seconds)}s`;
+};
+
+const trustColor = (score: number) => {
+  if (score >= 70) return "text-green-600";
+  if (score >= 40) return "text-yellow-600";
+  return "text-red-600";
+};
+
+// Phone digits or part of the name, whatever the vendor types
+function matchesSearch(client: Client, search: string): boolean {
+  const text = search.trim().toLowerCase();
+  if (!text) return true;
+  const digits = text.replace(/\D/g, "");
+  if (digits && client.phone.replace(/\D/g, "").includes(digits)) return true;
+  return (client.name || "").toLowerCase().includes(text);
+}
+
+function TierBadge({ tier }: { tier: ClientTier }) {
+  const config = tierConfig[tier];
+  return (
+    <Badge className={config.className}>
+      {tier === "diamond" && <Crown className="w-3 h-3 mr-1" />}
+      {config.label}
+    </Badge>
+  );
+}
+
+// Detail sheet: profile editing and order history
+function ClientDetail({
+  client,
+  onSave,
+  isSaving,
+}: {
+  client: Client;
+  onSave: (data: ClientProfileUpdate) => Promise<void>;
+  isSaving: boolean;
+}) {
+  const { orders, isLoading } = useClientOrders(client);
+  const [name, setName] = useState(client.name || "");
+  const [notes, setNotes] = useState(client.notes || "");
+  const [tags, setTags] = useState<string[]>(client.tags || []);
+  const [tagInput, setTagInput] = useState("");
+
+  useEffect(() => {
+    setName(client.name || "");
+    setNotes(client.notes || "");
+    setTags(client.tags || []);
+    setTagInput("");
+  }, [client.id]);
+
+  const addTag = () => {
+    const tag = tagInput.trim();
+    if (!tag || tags.includes(tag) || tags.length >= MAX_TAGS) return;
+    setTags([...tags, tag]);
+    setTagInput("");
+  };
+
+  const hasChanges =
+    name !== (client.name || "") ||
+    notes !== (client.notes || "") ||
+    tags.join("\n") !== (client.tags || []).join("\n");
+
+  return (
+    <div className="space-y-6 mt-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="p-3 rounded-lg border">
+          <p className="text-xs text-muted-foreground">Score de confiance</p>
+          <p className={`text-xl font-bold ${trustColor(client.trustScore)}`}>{Math.round(client.trustScore)}/100</p>
+        </div>
+        <div className="p-3 rounded-lg border">
+          <p className="text-xs text-muted-foreground">Total dépensé</p>
+          <p className="text-xl font-bold">{formatPrice(client.totalSpent)}</p>
+        </div>
+        <div className="p-3 rounded-lg border">
+          <p className="text-xs text-muted-foreground">Commandes payées</p>
+          <p className="text-xl font-bold">
+            {client.successfulPayments}/{client.totalOrders}
+          </p>
+          {client.expiredReservations > 0 && (
+            <p className="text-xs text-muted-foreground">{client.expiredReservations} réservation(s) expirée(s)</p>
+          )}
+        </div>
+        <div className="p-3 rounded-lg border">
+          <p className="text-xs text-muted-foreground">Temps de paiement moyen</p>
+          <p className="text-xl font-bold">{formatDuration(client.avgPaymentTimeSeconds)}</p>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="clientName">Nom</Label>
+          <Input
+            id="clientName"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Nom du client"
+            maxLength={100}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="clientTag">Tags</Label>
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {tags.map((tag) => (
+                <Badge key={tag} variant="secondary" className="gap-1">
+                  {tag}
+                  <button
+                    type="button"
+                    onClick={() => setTags(tags.filter((t) => t !== tag))}
+                    aria-label={`Retirer ${tag}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+          <Input
+            id="clientTag"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                addTag();
+              }
+            }}
+            placeholder={tags.length >= MAX_TAGS ? "20 tags maximum" : "Ex: VIP, taille M... (Entrée pour ajouter)"}
+            disabled={tags.length >= MAX_TAGS}
+            maxLength={40}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="clientNotes">Notes</Label>
+          <Textarea
+            id="clientNotes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Préférences, adresse de livraison habituelle..."
+            maxLength={2000}
+            rows={4}
+          />
+        </div>
+
+        <Button
+          className="w-full"
+          disabled={!hasChanges || isSaving}
+          onClick={() => onSave({ name: name.trim(), notes: notes.trim(), tags })}
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+          Enregistrer
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="font-semibold">Historique des commandes</h3>
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-14" />
+            ))}
+          </div>
+        ) : orders.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Aucune commande</p>
+        ) : (
+          <div className="space-y-2">
+            {orders.map((order) => (
+              <div key={order.id} className="flex items-center justify-between p-3 rounded-lg border text-sm">
+                <div>
+                  <p className="font-medium">
+                    {order.productName || "Produit"} <span className="text-muted-foreground">x{order.quantity}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">{formatDate(order.createdAt)}</p>
+                </div>
+                <div className="text-right">
+                  <p className="font-semibold">{formatPrice(order.totalAmount)}</p>
+                  <Badge
+                    variant={order.status === "paid" ? "default" : "secondary"}
+                    className={order.status === "paid" ? "bg-green-600" : ""}
+                  >
+                    {statusLabels[order.status]}
+                  </Badge>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function Clients() {
+  const { toast } = useToast();
+  const { clients, isLoading, error, update, isUpdating } = useClients();
+  const [search, setSearch] = useState("");
+  const [tierFilter, setTierFilter] = useState<string>(ALL);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (error) {
+      console.error("Error loading clients:", error);
+      toast({ title: "Erreur", description: "Impossible de charger les clients", variant: "destructive" });
+    }
+  }, [error, toast]);
+
+  const selected = clients.find((c) => c.id === selectedId) ?? null;
+  const filtered = clients.filter(
+    (c) => (tierFilter === ALL || c.tier === tierFilter) && matchesSearch(c, search)
+  );
+
+  const handleSave = async (data: ClientProfileUpdate) => {
+    if (!selected) return;
+    try {
+      await update({ id: selected.id, ...data });
+      toast({ title: "Client mis à jour" });
+    } catch (err) {
+      toast({ title: "Erreur", description: "Impossible de mettre à jour le client", variant: "destructive" });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-96" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Clients</h1>
+        <p className="text-muted-foreground">Vos acheteurs, leur fidélité et leurs commandes</p>
+      </div>
+
+      <Card>
+        <CardHeader className="space-y-4">
+          <CardTitle className="text-lg">
+            {filtered.length} client{filtered.length > 1 ? "s" : ""}
+          </CardTitle>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="relative md:col-span-2">
+              <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                className="pl-9"
+                placeholder="Téléphone ou nom"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                data-testid="input-client-search"
+              />
+            </div>
+            <Select value={tierFilter} onValueChange={setTierFilter}>
+              <SelectTrigger data-testid="select-tier-filter">
+                <SelectValue placeholder="Niveau" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Tous les niveaux</SelectItem>
+                {Object.entries(tierConfig).map(([tier, { label }]) => (
+                  <SelectItem key={tier} value={tier}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {filtered.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Users className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>{clients.length === 0 ? "Aucun client pour le moment" : "Aucun client trouvé"}</p>
+              {clients.length === 0 && (
+                <p className="text-sm mt-2">Vos acheteurs apparaîtront ici après leur première commande</p>
+              )}
+            </div>
+          ) : (
+            <ScrollArea className="h-[600px]">
+              <div className="space-y-3">
+                {filtered.map((client) => (
+                  <div
+                    key={client.id}
+                    role="button"
+                    tabIndex={0}
+                    onClick={() => setSelectedId(client.id)}
+                    onKeyDown={(e) => e.key === "Enter" && setSelectedId(client.id)}
+                    className="flex items-center justify-between p-4 rounded-lg border bg-card hover:bg-muted/50 transition-colors cursor-pointer"
+                    data-testid={`row-client-${client.id}`}
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{client.name || client.phone}</span>
+                        <TierBadge tier={client.tier} />
+                      </div>
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground mt-1">
+                        <Phone className="h-3 w-3" />
+                        <span>{client.phone}</span>
+                      </div>
+                      {client.tags && client.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {client.tags.map((tag) => (
+                            <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="text-right flex items-center gap-3">
+                      <div onClick={(e) => e.stopPropagation()}>
+                        <InitiateChatDialog
+                          defaultPhone={client.phone}
+                          trigger={
+                            <Button size="sm" variant="ghost" className="text-green-600 hover:text-green-700 hover:bg-green-50">
+                              <MessageCircle className="w-4 h-4" />
+                            </Button>
+                          }
+                        />
+                      </div>
+                      <div>
+                        <p className="font-semibold">{formatPrice(client.totalSpent)}</p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {client.totalOrders} commande{client.totalOrders > 1 ? "s" : ""}
+                        </p>
+                        <p className={`text-xs mt-1 flex items-center gap-1 justify-end ${trustColor(client.trustScore)}`}>
+                          <ShieldCheck className="h-3 w-3" />
+                          {Math.round(client.trustScore)}/100
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+        </CardContent>
+      </Card>
+
+      <Sheet open={!!selected} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+          {selected && (
+            <>
+              <SheetHeader>
+                <SheetTitle className="flex items-center gap-2">
+                  {selected.name || selected.phone}
+                  <TierBadge tier={selected.tier} />
+                </SheetTitle>
+                <SheetDescription>
+                  {selected.phone}
+                  {selected.firstOrderAt && ` · client depuis le ${formatDate(selected.firstOrderAt)}`}
+                </SheetDescription>
+              </SheetHeader>
+              <ClientDetail client={selected} onSave={handleSave} isSaving={isUpdating} />
+            </>
+          )}
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+}
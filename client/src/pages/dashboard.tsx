@@ -15,9 +15,11 @@ import {
   CheckCircle,
   Clock
 } from "lucide-react";
-import { Link } from "wouter";
+import { Link, useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { useOrders } from "@/hooks/use-orders";
+import { useLiveSession } from "@/hooks/use-live-session";
 import { OnboardingChecklist, WelcomeModal } from "@/components/onboarding";
 import { QuickActions } from "@/components/quick-actions";
 import { StatsSkeleton } from "@/components/empty-state";
@@ -25,29 +27,24 @@ import {
   getVendorConfig,
   updateVendorConfig,
   getProducts,
-  getOrders,
   type VendorConfig,
   type Product,
-  type Order,
 } from "@/lib/firebase";
-
-interface OrderStats {
-  pending: number;
-  reserved: number;
-  paid: number;
-  expired: number;
-  totalRevenue: number;
-}
+import { formatPrice } from "@shared/format";
 
 export default function Dashboard() {
   const { toast } = useToast();
   const { user } = useAuth();
+  // Live order feed: list, stats and revenue follow Firestore in real time
+  const { orders, stats, isLoading: isLoadingOrders } = useOrders();
+  const { activeSession, end: endLiveSession } = useLiveSession();
+  const [, setLocation] = useLocation();
   
   // Data state
   const [config, setConfig] = useState<VendorConfig | null>(null);
   const [products, setProducts] = useState<Product[]>([]);
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingData, setIsLoadingData] = useState(true);
+  const isLoading = isLoadingData || isLoadingOrders;
   const [isTogglingLive, setIsTogglingLive] = useState(false);
   
   // Welcome modal state for new users
@@ -68,20 +65,18 @@ export default function Dashboard() {
     
     const loadData = async () => {
       try {
-        setIsLoading(true);
-        const [configData, productsData, ordersData] = await Promise.all([
+        setIsLoadingData(true);
+        const [configData, productsData] = await Promise.all([
           getVendorConfig(user.id),
           getProducts(user.id),
-          getOrders(user.id),
         ]);
         setConfig(configData);
         setProducts(productsData);
-        setOrders(ordersData);
       } catch (error) {
         console.error("Error loading dashboard data:", error);
         toast({ title: "Erreur", description: "Impossible de charger les données", variant: "destructive" });
       } finally {
-        setIsLoading(false);
+        setIsLoadingData(false);
       }
     };
     
@@ -93,19 +88,24 @@ export default function Dashboard() {
     setShowWelcome(false);
   };
 
-  // Toggle live mode
+  // Toggle live mode: a live is started from the Lives page (title, platform),
+  // ending it here closes the session and shows its summary there
   const toggleLiveMode = async (liveMode: boolean) => {
     if (!config) return;
+    if (liveMode) {
+      setLocation("/live");
+      return;
+    }
     setIsTogglingLive(true);
     try {
-      await updateVendorConfig(config.id, { liveMode });
-      setConfig(prev => prev ? { ...prev, liveMode } : null);
-      toast({
-        title: liveMode ? "Mode Live activé" : "Mode Live désactivé",
-        description: liveMode 
-          ? "Le chatbot WhatsApp accepte maintenant les commandes" 
-          : "Le chatbot est en pause",
-      });
+      if (activeSession) {
+        await endLiveSession(activeSession);
+      } else {
+        await updateVendorConfig(config.id, { liveMode: false });
+      }
+      setConfig(prev => prev ? { ...prev, liveMode: false } : null);
+      toast({ title: "Mode Live désactivé", description: "Le chatbot est en pause" });
+      if (activeSession) setLocation("/live");
     } catch (error) {
       toast({ title: "Erreur", description: "Impossible de changer le mode", variant: "destructive" });
     } finally {
@@ -113,19 +113,6 @@ export default function Dashboard() {
     }
   };
 
-  // Calculate stats from orders
-  const stats: OrderStats = {
-    pending: orders.filter(o => o.status === "pending").length,
-    reserved: orders.filter(o => o.status === "reserved").length,
-    paid: orders.filter(o => o.status === "paid").length,
-    expired: orders.filter(o => o.status === "expired").length,
-    totalRevenue: orders.filter(o => o.status === "paid").reduce((sum, o) => sum + o.totalAmount, 0),
-  };
-
-  const formatPrice = (amount: number) => {
-    return new Intl.NumberFormat("fr-FR").format(amount) + " FCFA";
-  };
-
   const recentOrders = orders.slice(0, 5);
   
   // Onboarding state calculations
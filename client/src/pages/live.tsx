@@ -0,0 +1,563 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Radio,
+  Square,
+  ShoppingCart,
+  CircleDollarSign,
+  Clock,
+  Trophy,
+  ChevronLeft,
+  ChevronRight,
+  ArrowUp,
+  ArrowDown,
+  Trash2,
+  Plus,
+  Zap,
+  Copy,
+  MonitorPlay,
+  FileDown,
+  Printer,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useLiveSession, useLiveSessionSummary } from "@/hooks/use-live-session";
+import { useProducts } from "@/hooks/use-products";
+import { nowShowing } from "@shared/live-lineup";
+import { formatPrice } from "@shared/format";
+import { buildLiveReport, downloadLiveReportCsv, printLiveReport } from "@/lib/live-report";
+import type { LiveLineupItem, LivePlatform, LiveSession } from "@/lib/firebase";
+
+const platformLabels: Record<LivePlatform, string> = {
+  tiktok: "TikTok",
+  facebook: "Facebook",
+  instagram: "Instagram",
+  whatsapp_status: "Statut WhatsApp",
+};
+
+const formatDateTime = (date: Date) => {
+  return date.toLocaleString("fr-FR", { dateStyle: "short", timeStyle: "short" });
+};
+
+function SessionSummary({ session }: { session: LiveSession }) {
+  const { toast } = useToast();
+  const { orders, summary, isLoading } = useLiveSessionSummary(session.id, session.active);
+
+  const exportPdf = () => {
+    if (!printLiveReport(buildLiveReport(session, orders))) {
+      toast({ title: "Erreur", description: "Autorisez les fenêtres pop-up pour imprimer le rapport", variant: "destructive" });
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-40" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => downloadLiveReportCsv(buildLiveReport(session, orders))}
+          data-testid="button-report-csv"
+        >
+          <FileDown className="h-4 w-4 mr-2" />
+          CSV
+        </Button>
+        <Button variant="outline" size="sm" onClick={exportPdf} data-testid="button-report-pdf">
+          <Printer className="h-4 w-4 mr-2" />
+          PDF
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">Commandes</p>
+                <p className="text-2xl font-bold" data-testid="text-session-orders">{summary.orders}</p>
+              </div>
+              <ShoppingCart className="h-8 w-8 text-primary opacity-50" />
+            </div>
+          </CardContent>
+        </Card>
+        <Card className="bg-green-50 dark:bg-green-950/20">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">Revenu ({summary.paidOrders} payées)</p>
+                <p className="text-lg font-bold text-green-600" data-testid="text-session-revenue">
+                  {formatPrice(summary.revenue)}
+                </p>
+              </div>
+              <CircleDollarSign className="h-8 w-8 text-green-500 opacity-50" />
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">Réservations non payées</p>
+                <p className="text-2xl font-bold text-amber-600">{summary.unpaidReservations}</p>
+                <p className="text-xs text-muted-foreground">{formatPrice(summary.unpaidAmount)}</p>
+              </div>
+              <Clock className="h-8 w-8 text-amber-500 opacity-50" />
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">Conversion</p>
+                <p className="text-2xl font-bold">
+                  {summary.orders > 0 ? `${Math.round((summary.paidOrders / summary.orders) * 100)}%` : "-"}
+                </p>
+              </div>
+              <Radio className="h-8 w-8 text-blue-500 opacity-50" />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Trophy className="h-5 w-5 text-amber-500" />
+            Meilleurs produits
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {summary.topProducts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Aucune commande pendant ce live</p>
+          ) : (
+            <div className="space-y-2">
+              {summary.topProducts.map((product, index) => (
+                <div key={product.productId} className="flex items-center justify-between p-3 rounded-lg border">
+                  <div className="flex items-center gap-3">
+                    <span className="flex items-center justify-center w-6 h-6 rounded-full bg-muted text-xs font-bold">
+                      {index + 1}
+                    </span>
+                    <span className="font-medium text-sm">{product.productName}</span>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-semibold text-sm">{product.quantity} vendu(s)</p>
+                    <p className="text-xs text-muted-foreground">{formatPrice(product.revenue)} encaissés</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// Keeps the pointer on the same product when the lineup is reordered or shortened
+function pointerAfterEdit(session: LiveSession, lineup: LiveLineupItem[]): number {
+  const shown = nowShowing(session);
+  const index = shown ? lineup.findIndex((item) => item.productId === shown.productId) : -1;
+  if (index >= 0) return index;
+  return Math.max(0, Math.min(session.currentIndex, lineup.length - 1));
+}
+
+const parseOptionalNumber = (value: string) => {
+  const number = Number(value);
+  return value.trim() !== "" && Number.isFinite(number) && number >= 0 ? number : undefined;
+};
+
+function LineupEditor({ session }: { session: LiveSession }) {
+  const { toast } = useToast();
+  const { products } = useProducts();
+  const { updateLineup, isUpdatingLineup } = useLiveSession();
+  const [productId, setProductId] = useState("");
+  const [livePrice, setLivePrice] = useState("");
+  const [quantityCap, setQuantityCap] = useState("");
+
+  const lineup = session.lineup;
+  const shown = nowShowing(session);
+  const productById = (id: string) => products.find((p) => p.id === id);
+  const available = products.filter((p) => p.active && !lineup.some((item) => item.productId === p.id));
+
+  const save = async (data: { lineup?: LiveLineupItem[]; currentIndex?: number }) => {
+    try {
+      await updateLineup({ session, ...data });
+    } catch (error) {
+      toast({ title: "Erreur", description: "Impossible de mettre à jour le programme", variant: "destructive" });
+    }
+  };
+
+  const saveLineup = (next: LiveLineupItem[]) => save({ lineup: next, currentIndex: pointerAfterEdit(session, next) });
+
+  const addItem = () => {
+    if (!productId) return;
+    const price = parseOptionalNumber(livePrice);
+    const cap = parseOptionalNumber(quantityCap);
+    // Firestore rejects undefined values inside the lineup array
+    saveLineup([
+      ...lineup,
+      {
+        productId,
+        ...(price !== undefined && { livePrice: price }),
+        ...(cap !== undefined && cap >= 1 && { quantityCap: Math.floor(cap) }),
+      },
+    ]);
+    setProductId("");
+    setLivePrice("");
+    setQuantityCap("");
+  };
+
+  const moveItem = (index: number, offset: number) => {
+    const next = [...lineup];
+    const [item] = next.splice(index, 1);
+    next.splice(index + offset, 0, item);
+    saveLineup(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Zap className="h-5 w-5 text-amber-500" />
+          Programme du live
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Now showing: big buttons, used from the phone while on air */}
+        {shown && (
+          <div className="flex items-center gap-3 p-3 rounded-lg bg-amber-50 dark:bg-amber-950/20 border border-amber-300">
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-12 w-12 shrink-0"
+              disabled={session.currentIndex === 0 || isUpdatingLineup}
+              onClick={() => save({ currentIndex: session.currentIndex - 1 })}
+              data-testid="button-lineup-previous"
+            >
+              <ChevronLeft className="h-6 w-6" />
+            </Button>
+            <div className="flex-1 text-center">
+              <p className="text-xs text-muted-foreground">
+                En ce moment ({session.currentIndex + 1}/{lineup.length})
+              </p>
+              <p className="font-bold" data-testid="text-now-showing">
+                {productById(shown.productId)?.name || "Produit"}
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-12 w-12 shrink-0"
+              disabled={session.currentIndex >= lineup.length - 1 || isUpdatingLineup}
+              onClick={() => save({ currentIndex: session.currentIndex + 1 })}
+              data-testid="button-lineup-next"
+            >
+              <ChevronRight className="h-6 w-6" />
+            </Button>
+          </div>
+        )}
+
+        {lineup.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Ajoutez les produits dans l'ordre où vous allez les présenter
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {lineup.map((item, index) => {
+              const product = productById(item.productId);
+              const reserved = session.reservedByProduct[item.productId] || 0;
+              const isShown = index === session.currentIndex;
+              return (
+                <div
+                  key={item.productId}
+                  className={`flex items-center justify-between gap-2 p-3 rounded-lg border ${isShown ? "border-amber-400" : ""}`}
+                  data-testid={`row-lineup-${item.productId}`}
+                >
+                  <button className="flex-1 text-left" onClick={() => save({ currentIndex: index })}>
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-muted-foreground">{index + 1}.</span>
+                      {product && (
+                        <Badge variant="outline" className="font-mono text-xs">{product.keyword}</Badge>
+                      )}
+                      <span className="font-medium text-sm">{product?.name || "Produit supprimé"}</span>
+                      {isShown && <Badge className="bg-amber-500">En ce moment</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {item.livePrice !== undefined && product ? (
+                        <>
+                          <span className="line-through mr-1">{formatPrice(product.price)}</span>
+                          <span className="font-semibold text-green-600">{formatPrice(item.livePrice)}</span>
+                        </>
+                      ) : (
+                        product && formatPrice(product.price)
+                      )}
+                      {item.quantityCap !== undefined
+                        ? ` · ${reserved}/${item.quantityCap} réservé(s)`
+                        : reserved > 0 && ` · ${reserved} réservé(s)`}
+                    </p>
+                  </button>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={index === 0 || isUpdatingLineup}
+                      onClick={() => moveItem(index, -1)}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={index === lineup.length - 1 || isUpdatingLineup}
+                      onClick={() => moveItem(index, 1)}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={isUpdatingLineup}
+                      onClick={() => saveLineup(lineup.filter((_, i) => i !== index))}
+                      data-testid={`button-lineup-remove-${item.productId}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="grid sm:grid-cols-[1fr_140px_120px_auto] gap-2 items-end">
+          <div className="space-y-2">
+            <Label>Produit</Label>
+            <Select value={productId} onValueChange={setProductId}>
+              <SelectTrigger data-testid="select-lineup-product">
+                <SelectValue placeholder="Choisir un produit" />
+              </SelectTrigger>
+              <SelectContent>
+                {available.map((product) => (
+                  <SelectItem key={product.id} value={product.id}>
+                    {product.keyword} · {product.name} ({formatPrice(product.price)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="lineup-price">Prix live</Label>
+            <Input
+              id="lineup-price"
+              type="number"
+              min={0}
+              placeholder="Prix normal"
+              value={livePrice}
+              onChange={(e) => setLivePrice(e.target.value)}
+              data-testid="input-lineup-price"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="lineup-cap">Quantité max</Label>
+            <Input
+              id="lineup-cap"
+              type="number"
+              min={1}
+              placeholder="Illimitée"
+              value={quantityCap}
+              onChange={(e) => setQuantityCap(e.target.value)}
+              data-testid="input-lineup-cap"
+            />
+          </div>
+          <Button onClick={addItem} disabled={!productId || isUpdatingLineup} data-testid="button-lineup-add">
+            <Plus className="h-4 w-4 mr-2" />
+            Ajouter
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Browser source URL for OBS / streaming apps
+function OverlayLink({ token }: { token: string }) {
+  const { toast } = useToast();
+  const url = `${window.location.origin}/overlay/${token}`;
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(url);
+    toast({ title: "Lien copié", description: "Ajoutez-le comme source navigateur dans OBS" });
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <div className="flex flex-wrap items-center gap-3">
+          <MonitorPlay className="h-5 w-5 text-primary shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="font-medium text-sm">Overlay du live</p>
+            <p className="text-xs text-muted-foreground truncate" data-testid="text-overlay-url">{url}</p>
+          </div>
+          <Button variant="outline" size="sm" onClick={copy} data-testid="button-copy-overlay">
+            <Copy className="h-4 w-4 mr-2" />
+            Copier
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Live() {
+  const { toast } = useToast();
+  const { activeSession, sessions, isLoading, start, end, isStarting, isEnding } = useLiveSession();
+  const [title, setTitle] = useState("");
+  const [platform, setPlatform] = useState<LivePlatform>("tiktok");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const pastSessions = sessions.filter((s) => !s.active);
+  const selectedSession = pastSessions.find((s) => s.id === selectedId) ?? pastSessions[0];
+
+  const handleStart = async () => {
+    try {
+      await start({ title: title.trim() || `Live ${platformLabels[platform]}`, platform });
+      setTitle("");
+      toast({ title: "Live démarré", description: "Le chatbot WhatsApp accepte maintenant les commandes" });
+    } catch (error) {
+      toast({
+        title: "Erreur",
+        description: error instanceof Error ? error.message : "Impossible de démarrer le live",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleEnd = async () => {
+    if (!activeSession) return;
+    try {
+      const ended = await end(activeSession);
+      setSelectedId(ended.id);
+      toast({ title: "Live terminé", description: "Le chatbot est en pause" });
+    } catch (error) {
+      toast({ title: "Erreur", description: "Impossible de terminer le live", variant: "destructive" });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-32" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6 max-w-5xl">
+      <div>
+        <h1 className="text-2xl font-bold" data-testid="text-live-title">Lives</h1>
+        <p className="text-muted-foreground">Démarrez un live pour suivre ses commandes et son chiffre d'affaires</p>
+      </div>
+
+      {activeSession ? (
+        <>
+          <Card className="border-2 border-green-500 bg-green-50 dark:bg-green-950/20">
+            <CardContent className="pt-6">
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div className="flex items-center gap-4">
+                  <div className="p-3 rounded-full bg-green-500">
+                    <Radio className="h-6 w-6 text-white animate-pulse" />
+                  </div>
+                  <div>
+                    <h2 className="text-xl font-bold">🟢 {activeSession.title}</h2>
+                    <p className="text-sm text-muted-foreground">
+                      <Badge variant="outline" className="mr-2">{platformLabels[activeSession.platform]}</Badge>
+                      Depuis {formatDateTime(activeSession.createdAt)}
+                    </p>
+                  </div>
+                </div>
+                <Button variant="destructive" onClick={handleEnd} disabled={isEnding} data-testid="button-end-live">
+                  <Square className="h-4 w-4 mr-2" />
+                  Terminer le live
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+          {activeSession.overlayToken && <OverlayLink token={activeSession.overlayToken} />}
+          <LineupEditor session={activeSession} />
+          <SessionSummary session={activeSession} />
+        </>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Démarrer un live</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid sm:grid-cols-[1fr_200px_auto] gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="live-title">Titre</Label>
+                <Input
+                  id="live-title"
+                  placeholder="Ex: Nouvelle collection wax"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  data-testid="input-live-title"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Plateforme</Label>
+                <Select value={platform} onValueChange={(v) => setPlatform(v as LivePlatform)}>
+                  <SelectTrigger data-testid="select-live-platform">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(platformLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={handleStart} disabled={isStarting} className="bg-green-600 hover:bg-green-700" data-testid="button-start-live">
+                <Radio className="h-4 w-4 mr-2" />
+                Démarrer le live
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {selectedSession && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <h2 className="text-xl font-semibold">Bilan : {selectedSession.title}</h2>
+            <Select value={selectedSession.id} onValueChange={setSelectedId}>
+              <SelectTrigger className="w-[280px]" data-testid="select-past-session">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {pastSessions.map((session) => (
+                  <SelectItem key={session.id} value={session.id}>
+                    {session.title} · {formatDateTime(session.createdAt)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {platformLabels[selectedSession.platform]} · {formatDateTime(selectedSession.createdAt)}
+            {selectedSession.endedAt && ` → ${formatDateTime(selectedSession.endedAt)}`}
+          </p>
+          <SessionSummary session={selectedSession} />
+        </div>
+      )}
+    </div>
+  );
+}
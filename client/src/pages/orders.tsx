@@ -4,11 +4,17 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Package, Phone, Clock, CheckCircle, XCircle, AlertCircle, MessageCircle } from "lucide-react";
 import { InitiateChatDialog } from "@/components/initiate-chat-dialog";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { getOrders, getProducts, type Order, type Product } from "@/lib/firebase";
+import { useOrders } from "@/hooks/use-orders";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { isCompletePhone, normalizePhone } from "@shared/phone";
+import { formatPrice } from "@shared/format";
+import { getProducts, type OrderFilters, type OrderStatus, type Product } from "@/lib/firebase";
 
 const statusConfig = {
   pending: { label: "En attente", color: "bg-yellow-500", icon: Clock },
@@ -18,44 +24,76 @@ const statusConfig = {
   cancelled: { label: "Annulé", color: "bg-red-500", icon: XCircle },
 };
 
+const ALL = "all";
+
+// "2024-05-01" from <input type="date">, read as local midnight
+function parseDay(value: string): Date | undefined {
+  if (!value) return undefined;
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
 export default function Orders() {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [orders, setOrders] = useState<Order[]>([]);
+  // Filters are applied by Firestore; the list is loaded page by page
+  const [statusFilter, setStatusFilter] = useState<string>(ALL);
+  const [productFilter, setProductFilter] = useState<string>(ALL);
+  const [phoneSearch, setPhoneSearch] = useState("");
+  const [fromDay, setFromDay] = useState("");
+  const [toDay, setToDay] = useState("");
+
+  // Exact match in Firestore: only query once the number is complete, not per keystroke
+  const debouncedPhone = useDebouncedValue(phoneSearch, 400);
+  const clientPhone = isCompletePhone(debouncedPhone) ? normalizePhone(debouncedPhone) : undefined;
+
+  const toDate = parseDay(toDay);
+  const filters: OrderFilters = {
+    status: statusFilter === ALL ? undefined : (statusFilter as OrderStatus),
+    productId: productFilter === ALL ? undefined : productFilter,
+    clientPhone,
+    from: parseDay(fromDay),
+    // Whole "to" day included
+    to: toDate && new Date(toDate.getFullYear(), toDate.getMonth(), toDate.getDate() + 1),
+  };
+
+  // Live order feed (Firestore onSnapshot), no reload needed during a live
+  const {
+    orders,
+    stats,
+    isLoading: isLoadingOrders,
+    error: ordersError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useOrders(filters);
   const [products, setProducts] = useState<Product[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingProducts, setIsLoadingProducts] = useState(true);
+  const isLoading = isLoadingProducts;
 
   useEffect(() => {
     if (!user) return;
     
     const loadData = async () => {
       try {
-        setIsLoading(true);
-        const [ordersData, productsData] = await Promise.all([
-          getOrders(user.id),
-          getProducts(user.id),
-        ]);
-        setOrders(ordersData);
-        setProducts(productsData);
+        setIsLoadingProducts(true);
+        setProducts(await getProducts(user.id));
       } catch (error) {
-        console.error("Error loading orders:", error);
-        toast({ title: "Erreur", description: "Impossible de charger les commandes", variant: "destructive" });
+        console.error("Error loading products:", error);
       } finally {
-        setIsLoading(false);
+        setIsLoadingProducts(false);
       }
     };
     
     loadData();
-  }, [user, toast]);
+  }, [user]);
 
-  // Calculate stats from orders
-  const stats = {
-    pending: orders.filter(o => o.status === "pending").length,
-    reserved: orders.filter(o => o.status === "reserved").length,
-    paid: orders.filter(o => o.status === "paid").length,
-    expired: orders.filter(o => o.status === "expired").length,
-    totalRevenue: orders.filter(o => o.status === "paid").reduce((sum, o) => sum + o.totalAmount, 0),
-  };
+  useEffect(() => {
+    if (ordersError) {
+      console.error("Error loading orders:", ordersError);
+      toast({ title: "Erreur", description: "Impossible de charger les commandes", variant: "destructive" });
+    }
+  }, [ordersError, toast]);
 
   const getProductName = (productId: string) => {
     const product = products.find(p => p.id === productId);
@@ -76,10 +114,6 @@ export default function Orders() {
     );
   }
 
-  const formatPrice = (amount: number) => {
-    return new Intl.NumberFormat("fr-FR").format(amount) + " FCFA";
-  };
-
   const formatDate = (date: Date) => {
     return date.toLocaleString("fr-FR", {
       day: "2-digit",
@@ -158,11 +192,62 @@ export default function Orders() {
 
       {/* Orders List */}
       <Card>
-        <CardHeader>
+        <CardHeader className="space-y-4">
           <CardTitle className="text-lg">Historique des commandes</CardTitle>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger data-testid="select-status-filter">
+                <SelectValue placeholder="Statut" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Tous les statuts</SelectItem>
+                {Object.entries(statusConfig).map(([status, { label }]) => (
+                  <SelectItem key={status} value={status}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={productFilter} onValueChange={setProductFilter}>
+              <SelectTrigger data-testid="select-product-filter">
+                <SelectValue placeholder="Produit" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Tous les produits</SelectItem>
+                {products.map((product) => (
+                  <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="tel"
+              placeholder="Téléphone client (221...)"
+              value={phoneSearch}
+              onChange={(e) => setPhoneSearch(e.target.value)}
+              data-testid="input-phone-search"
+            />
+            <Input
+              type="date"
+              value={fromDay}
+              onChange={(e) => setFromDay(e.target.value)}
+              aria-label="Du"
+              data-testid="input-date-from"
+            />
+            <Input
+              type="date"
+              value={toDay}
+              onChange={(e) => setToDay(e.target.value)}
+              aria-label="Au"
+              data-testid="input-date-to"
+            />
+          </div>
         </CardHeader>
         <CardContent>
-          {orders.length === 0 ? (
+          {isLoadingOrders ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-20" />
+              ))}
+            </div>
+          ) : orders.length === 0 ? (
             <div className="text-center py-12 text-muted-foreground">
               <Package className="h-12 w-12 mx-auto mb-4 opacity-50" />
               <p>Aucune commande pour le moment</p>
@@ -213,6 +298,11 @@ export default function Orders() {
                             >
                               {config.label}
                             </Badge>
+                            {order.paidAfterExpiry && (
+                              <Badge variant="destructive" title="Paiement reçu après libération du stock : à rembourser ou honorer">
+                                Payée après expiration
+                              </Badge>
+                            )}
                           </div>
                           <p className="text-xs text-muted-foreground mt-1">
                             {formatDate(order.createdAt)}
@@ -222,6 +312,17 @@ export default function Orders() {
                     </div>
                   );
                 })}
+                {hasNextPage && (
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                    data-testid="button-load-more-orders"
+                  >
+                    {isFetchingNextPage ? "Chargement..." : "Charger plus"}
+                  </Button>
+                )}
               </div>
             </ScrollArea>
           )}
@@ -0,0 +1,126 @@
+import { useEffect, useState } from "react";
+import { useRoute } from "wouter";
+import { ShoppingBag, CheckCircle2 } from "lucide-react";
+import { liveOffer } from "@shared/live-lineup";
+import { formatPrice } from "@shared/format";
+import {
+  subscribeToLiveOverlay,
+  subscribeToProduct,
+  type LiveOverlay,
+  type Product,
+} from "@/lib/firebase";
+
+/**
+ * Stream overlay, added to OBS (or a streaming app) as a browser source
+ * Public and transparent: shows the product the vendor is presenting and
+ * the latest paid orders, live from liveOverlays/{token}.
+ */
+
+export default function Overlay() {
+  const [, params] = useRoute("/overlay/:token");
+  const token = params?.token;
+  const [overlay, setOverlay] = useState<LiveOverlay | null | undefined>(undefined);
+  const [product, setProduct] = useState<Product | null>(null);
+  const productId = overlay?.showing?.productId;
+
+  // The page is composited over the video
+  useEffect(() => {
+    const { body } = document;
+    const previous = body.style.background;
+    body.style.background = "transparent";
+    return () => {
+      body.style.background = previous;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!token) return;
+    return subscribeToLiveOverlay(token, setOverlay, (error) => {
+      console.error("Overlay feed error:", error);
+      setOverlay(null);
+    });
+  }, [token]);
+
+  useEffect(() => {
+    if (!productId) {
+      setProduct(null);
+      return;
+    }
+    // Inactive products cannot be read publicly: the card is hidden
+    return subscribeToProduct(productId, setProduct, () => setProduct(null));
+  }, [productId]);
+
+  if (overlay === undefined) return null;
+  if (overlay === null) {
+    return <p className="p-4 text-sm text-white/70">Overlay introuvable</p>;
+  }
+  if (!overlay.active) return null;
+
+  const offer = product && liveOffer(
+    {
+      active: overlay.active,
+      lineup: overlay.showing ? [overlay.showing] : [],
+      currentIndex: 0,
+      reservedByProduct: overlay.reservedByProduct,
+    },
+    product
+  );
+  const price = offer?.price ?? product?.price ?? 0;
+  const inStock = product ? product.stock - (product.reservedStock || 0) : 0;
+  const remaining = Math.max(0, offer?.remaining != null ? Math.min(inStock, offer.remaining) : inStock);
+
+  return (
+    <div className="min-h-screen p-6 flex flex-col justify-end gap-4 font-sans" data-testid="overlay">
+      {/* Latest paid orders */}
+      {overlay.recentOrders.length > 0 && (
+        <div className="flex flex-col gap-2 max-w-sm">
+          {overlay.recentOrders.slice(0, 4).map((order, index) => (
+            <div
+              key={`${order.paidAt.getTime()}-${index}`}
+              className="flex items-center gap-2 px-3 py-2 rounded-full bg-black/60 text-white text-sm animate-in fade-in slide-in-from-left-4"
+              style={{ opacity: 1 - index * 0.2 }}
+            >
+              <CheckCircle2 className="h-4 w-4 text-green-400 shrink-0" />
+              <span className="truncate">
+                <strong>{order.customer}</strong> a payé {order.productName} x{order.quantity}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Now showing */}
+      {product && (
+        <div
+          className="flex items-center gap-4 p-4 rounded-2xl bg-black/75 text-white max-w-xl shadow-2xl"
+          data-testid="overlay-product"
+        >
+          {product.imageUrl ? (
+            <img src={product.imageUrl} alt="" className="h-24 w-24 rounded-xl object-cover shrink-0" />
+          ) : (
+            <div className="h-24 w-24 rounded-xl bg-white/10 flex items-center justify-center shrink-0">
+              <ShoppingBag className="h-10 w-10" />
+            </div>
+          )}
+          <div className="min-w-0 space-y-1">
+            <p className="text-xl font-bold truncate">{product.name}</p>
+            <p className="text-2xl font-extrabold text-green-400">
+              {formatPrice(price)}
+              {price !== product.price && (
+                <span className="ml-2 text-base font-normal text-white/60 line-through">
+                  {formatPrice(product.price)}
+                </span>
+              )}
+            </p>
+            <p className="text-lg">
+              Envoyez <span className="px-2 py-0.5 rounded bg-green-600 font-mono font-bold">{product.keyword}</span> sur WhatsApp
+            </p>
+            <p className={`text-sm font-semibold ${remaining <= 3 ? "text-amber-400" : "text-white/80"}`}>
+              {remaining > 0 ? `Plus que ${remaining} disponible(s)` : "Épuisé"}
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,12 +7,8 @@ import { useRoute, useSearch } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { 
-  getOrderByToken, 
-  getProduct, 
-  getUserProfile, 
-  getVendorConfig, 
-  updateOrder,
-  Order,
+  getPaymentLink, 
+  createPaymentCharge,
   PaymentMethod as FirebasePaymentMethod
 } from "@/lib/firebase";
 
@@ -92,7 +88,6 @@ export default function Pay() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [order, setOrder] = useState<Order | null>(null);
 
   const methods = DEFAULT_PAYMENT_METHODS;
 
@@ -104,32 +99,21 @@ export default function Pay() {
       setIsLoading(true);
       setError(null);
       try {
-        const orderData = await getOrderByToken(token);
-        if (!orderData) {
-          throw new Error("Order not found");
+        // Resolved by the server: the token is not the order ID
+        const link = await getPaymentLink(token);
+        if (!link) {
+          throw new Error("Payment link not found");
         }
-        setOrder(orderData);
-        
-        // Get product info
-        const product = await getProduct(orderData.productId);
-        
-        // Get vendor info
-        const vendorProfile = await getUserProfile(orderData.vendorId);
-        const vendorConfig = await getVendorConfig(orderData.vendorId);
-        
-        // Calculate expiration
-        const expiresAt = orderData.reservedUntil || 
-          new Date(orderData.createdAt.getTime() + 30 * 60 * 1000); // 30 min default
         
         setInvoice({
-          id: orderData.id,
-          productName: product?.name || "Produit",
-          amount: orderData.totalAmount,
-          clientName: orderData.clientName || orderData.clientPhone,
-          status: orderData.status,
-          expiresAt: expiresAt.toISOString(),
-          vendorName: vendorProfile?.displayName || vendorConfig?.businessName || "Vendeur",
-          vendorPhone: vendorConfig?.whatsappNumber,
+          id: token,
+          productName: link.quantity > 1 ? `${link.productName} x${link.quantity}` : link.productName,
+          amount: link.amount,
+          clientName: link.clientName || "Client",
+          status: link.status,
+          expiresAt: link.expiresAt || new Date(Date.now() + 30 * 60 * 1000).toISOString(), // 30 min default
+          vendorName: link.vendorName,
+          vendorPhone: link.vendorPhone,
         });
       } catch (err) {
         console.error("Error loading payment data:", err);
@@ -154,8 +138,8 @@ export default function Pay() {
 
     const pollInterval = setInterval(async () => {
       try {
-        const orderData = await getOrderByToken(token);
-        if (orderData && orderData.status === "paid") {
+        const link = await getPaymentLink(token);
+        if (link && link.status === "paid") {
           setWaitingPayment(false);
           setInvoice(prev => prev ? { ...prev, status: "paid" } : null);
           toast({ title: "Paiement confirmé" });
@@ -175,7 +159,7 @@ export default function Pay() {
   }, [waitingPayment, invoice?.status, toast]);
 
   useEffect(() => {
-    if (!invoice?.expiresAt || invoice.status !== "pending") return;
+    if (!invoice?.expiresAt || (invoice.status !== "pending" && invoice.status !== "reserved")) return;
 
     const interval = setInterval(() => {
       const now = new Date().getTime();
@@ -198,40 +182,25 @@ export default function Pay() {
   }, [invoice?.expiresAt, invoice?.status]);
 
   const handlePayment = async () => {
-    if (!order || !token) return;
+    if (!invoice || !token) return;
     
     setIsProcessing(true);
     try {
-      // Update order with selected payment method
-      await updateOrder(order.id, {
-        paymentMethod: selectedMethod as FirebasePaymentMethod,
-        status: "reserved",
-      });
-      
-      // Build payment result based on method
+      const charge = await createPaymentCharge(token, selectedMethod as FirebasePaymentMethod);
+
       const result: PaymentResult = {
         success: true,
-        paymentMethod: selectedMethod,
-        amount: order.totalAmount,
-        vendorPhone: invoice?.vendorPhone,
+        paymentMethod: charge.paymentMethod,
+        amount: charge.amount,
+        deepLink: charge.redirectUrl,
+        ussdCode: charge.ussdCode,
+        instructions: charge.instructions || "Finalisez le paiement sur la page de votre opérateur",
+        vendorPhone: charge.vendorPhone || invoice?.vendorPhone,
       };
       
-      // Generate payment instructions based on method
-      if (selectedMethod === "wave") {
-        result.instructions = "Envoyez le montant au numéro du vendeur via Wave";
-        result.deepLink = `wave://send?phone=${invoice?.vendorPhone}&amount=${order.totalAmount}`;
-      } else if (selectedMethod === "orange_money") {
-        result.instructions = "Envoyez le montant via Orange Money";
-        result.ussdCode = `#144*1*${invoice?.vendorPhone?.replace(/\D/g, "")}*${order.totalAmount}#`;
-      } else if (selectedMethod === "cash") {
-        result.instructions = "Contactez le vendeur pour organiser le paiement en espèces";
-      } else if (selectedMethod === "card") {
-        result.instructions = "Le paiement par carte sera disponible bientôt";
-      }
-      
       setPaymentResult(result);
       
-      // Try to open the deep link if available
+      // Send the buyer to the PSP checkout / wallet app
       if (result.deepLink) {
         window.location.href = result.deepLink;
       }
@@ -282,7 +251,8 @@ export default function Pay() {
 
   const isPaid = invoice.status === "paid";
   const isExpired = invoice.status === "expired" || expired;
-  const isPending = invoice.status === "pending" && !expired;
+  // Chatbot orders arrive already "reserved" (stock held until reservedUntil)
+  const isPending = (invoice.status === "pending" || invoice.status === "reserved") && !expired;
 
   return (
     <div className="min-h-screen bg-background flex flex-col">
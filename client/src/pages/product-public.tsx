@@ -5,12 +5,11 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { MessageCircle, ShoppingBag, Share2, Copy, Check, Send, Camera, Video, Facebook, Download } from "lucide-react";
 import { useState, useEffect } from "react";
-import { getProductByShareCode, getUserProfile, getVendorConfig, type Product, type UserProfile, type VendorConfig } from "@/lib/firebase";
+import { getProductByShareCode, getPublicVendorProfile, type Product, type PublicVendorProfile } from "@/lib/firebase";
 
 interface PublicProductData {
   product: Product;
-  vendor: UserProfile | null;
-  config: VendorConfig | null;
+  vendor: PublicVendorProfile | null;
 }
 
 export default function ProductPublic() {
@@ -39,13 +38,10 @@ export default function ProductPublic() {
           return;
         }
         
-        // Load vendor info
-        const [vendor, config] = await Promise.all([
-          getUserProfile(product.vendorId),
-          getVendorConfig(product.vendorId),
-        ]);
+        // Load vendor info (public projection, readable without an account)
+        const vendor = await getPublicVendorProfile(product.vendorId);
         
-        setData({ product, vendor, config });
+        setData({ product, vendor });
       } catch (err) {
         setError(err as Error);
       } finally {
@@ -57,8 +53,8 @@ export default function ProductPublic() {
   }, [params.code]);
 
   const product = data?.product;
-  const vendorName = data?.vendor?.businessName || data?.vendor?.firstName || "Vendeur";
-  const whatsappNumber = data?.vendor?.phone || data?.config?.mobileMoneyNumber;
+  const vendorName = data?.vendor?.displayName || "Vendeur";
+  const whatsappNumber = data?.vendor?.contactPhone;
 
   const handleCopyKeyword = async () => {
     if (product?.keyword) {
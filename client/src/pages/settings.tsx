@@ -26,7 +26,8 @@ import {
   Phone,
   Store,
   CheckCircle,
-  Smartphone
+  Smartphone,
+  KeyRound
 } from "lucide-react";
 import { useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
@@ -35,45 +36,14 @@ import {
   updateVendorConfig,
   createVendorConfig,
   updateUserProfile,
+  syncPublicVendorProfile,
+  getVendorSecretsStatus,
+  updateVendorSecrets,
+  updateWhatsAppPhoneNumberId,
   type VendorConfig,
+  type VendorSecretsStatus,
 } from "@/lib/firebase";
-
-// Settings locaux (localStorage)
-const SETTINGS_KEY = "livepay_vendor_settings";
-
-interface VendorSettings {
-  enableSoundNotifications: boolean;
-  notificationVolume: number;
-  defaultPaymentMethod: string;
-}
-
-const defaultSettings: VendorSettings = {
-  enableSoundNotifications: true,
-  notificationVolume: 50,
-  defaultPaymentMethod: "wave",
-};
-
-function loadSettings(): VendorSettings {
-  try {
-    const saved = localStorage.getItem(SETTINGS_KEY);
-    if (saved) {
-      return { ...defaultSettings, ...JSON.parse(saved) };
-    }
-  } catch (error) {
-    console.error("Failed to load settings:", error);
-  }
-  return defaultSettings;
-}
-
-function saveSettings(settings: VendorSettings): void {
-  try {
-    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
-  } catch (error) {
-    console.error("Failed to save settings:", error);
-  }
-}
-
-
+import { loadSettings, saveSettings, type VendorSettings } from "@/lib/vendor-settings";
 
 export default function Settings() {
   const { user, logout, isLoggingOut } = useAuth();
@@ -84,6 +54,17 @@ export default function Settings() {
   const [isLoadingConfig, setIsLoadingConfig] = useState(true);
   const [isSavingConfig, setIsSavingConfig] = useState(false);
   const [isSavingProfile, setIsSavingProfile] = useState(false);
+  const [isSavingSecrets, setIsSavingSecrets] = useState(false);
+  const [isSavingPhoneNumberId, setIsSavingPhoneNumberId] = useState(false);
+
+  // Identifiants WhatsApp Business: saisis ici, jamais relus (seulement "configuré ou non")
+  const [secretsStatus, setSecretsStatus] = useState<VendorSecretsStatus | null>(null);
+  const [whatsappSecrets, setWhatsappSecrets] = useState({
+    whatsappAccessToken: "",
+    whatsappVerifyToken: "",
+  });
+  // Phone number ID de Meta: pas un secret, enregistré par le serveur (unique par boutique)
+  const [phoneNumberId, setPhoneNumberId] = useState("");
   
   // Config chatbot simplifié - juste le délai de paiement
   const [chatbotConfig, setChatbotConfig] = useState({
@@ -121,6 +102,7 @@ export default function Settings() {
             mobileMoneyNumber: config.mobileMoneyNumber || "",
             preferredPaymentMethod: config.preferredPaymentMethod || "wave",
           });
+          setPhoneNumberId(config.whatsappPhoneNumberId || "");
         }
       } catch (error) {
         console.error("Error loading vendor config:", error);
@@ -130,6 +112,9 @@ export default function Settings() {
     };
     
     loadConfig();
+    getVendorSecretsStatus()
+      .then(setSecretsStatus)
+      .catch((error) => console.error("Error loading WhatsApp secrets status:", error));
   }, [user]);
 
   useEffect(() => {
@@ -171,6 +156,7 @@ export default function Settings() {
     setIsSavingProfile(true);
     try {
       await updateUserProfile(user.id, profileData);
+      await syncPublicVendorProfile(user.id);
       toast({ title: "Profil mis à jour" });
     } catch (error) {
       toast({ title: "Erreur", description: "Impossible de mettre à jour le profil", variant: "destructive" });
@@ -195,7 +181,7 @@ export default function Settings() {
           status: "active",
           liveMode: false,
           autoReplyEnabled: true,
-          segment: "starter",
+          segment: "live_seller",
           allowQuantitySelection: true,
           requireDeliveryAddress: false,
           autoReminderEnabled: true,
@@ -203,6 +189,7 @@ export default function Settings() {
           minTrustScoreRequired: 0,
         });
         setVendorConfig(newConfig);
+        await syncPublicVendorProfile(user.id);
       }
       toast({ title: "Configuration enregistrée" });
     } catch (error) {
@@ -227,7 +214,7 @@ export default function Settings() {
           status: "active",
           liveMode: false,
           autoReplyEnabled: true,
-          segment: "starter",
+          segment: "live_seller",
           allowQuantitySelection: true,
           requireDeliveryAddress: false,
           autoReminderEnabled: true,
@@ -236,6 +223,7 @@ export default function Settings() {
         });
         setVendorConfig(newConfig);
       }
+      await syncPublicVendorProfile(user.id);
       toast({ title: "Configuration enregistrée" });
     } catch (error) {
       toast({ title: "Erreur", description: "Impossible de sauvegarder", variant: "destructive" });
@@ -244,6 +232,56 @@ export default function Settings() {
     }
   };
 
+  // Champs vides = valeur inchangée côté serveur
+  const handleSecretsSave = async () => {
+    const accessToken = whatsappSecrets.whatsappAccessToken.trim();
+    const verifyToken = whatsappSecrets.whatsappVerifyToken.trim();
+    if (!accessToken && !verifyToken) return;
+    if (verifyToken && verifyToken.length < 8) {
+      toast({ title: "Erreur", description: "Le token de vérification doit faire au moins 8 caractères", variant: "destructive" });
+      return;
+    }
+    setIsSavingSecrets(true);
+    try {
+      const status = await updateVendorSecrets({
+        ...(accessToken && { whatsappAccessToken: accessToken }),
+        ...(verifyToken && { whatsappVerifyToken: verifyToken }),
+      });
+      setSecretsStatus(status);
+      setWhatsappSecrets({ whatsappAccessToken: "", whatsappVerifyToken: "" });
+      toast({ title: "Identifiants WhatsApp enregistrés" });
+    } catch (error) {
+      toast({ title: "Erreur", description: "Impossible d'enregistrer les identifiants", variant: "destructive" });
+    } finally {
+      setIsSavingSecrets(false);
+    }
+  };
+
+  // Champ vide = numéro déconnecté
+  const handlePhoneNumberIdSave = async () => {
+    const value = phoneNumberId.trim();
+    if (value && !/^\d{5,30}$/.test(value)) {
+      toast({ title: "Erreur", description: "Le Phone number ID ne contient que des chiffres", variant: "destructive" });
+      return;
+    }
+    setIsSavingPhoneNumberId(true);
+    try {
+      await updateWhatsAppPhoneNumberId(value || null);
+      setVendorConfig((config) => config && { ...config, whatsappPhoneNumberId: value || undefined });
+      toast({ title: value ? "Numéro WhatsApp connecté" : "Numéro WhatsApp déconnecté" });
+    } catch (error) {
+      const status = error instanceof Error ? error.message.slice(0, 3) : "";
+      const description = status === "409"
+        ? "Ce numéro WhatsApp est déjà connecté à une autre boutique"
+        : status === "404"
+          ? "Enregistrez d'abord la configuration de votre boutique"
+          : "Impossible de connecter ce numéro";
+      toast({ title: "Erreur", description, variant: "destructive" });
+    } finally {
+      setIsSavingPhoneNumberId(false);
+    }
+  };
+
   return (
     <div className="p-4 md:p-6 space-y-6 max-w-2xl">
       <div>
@@ -504,6 +542,95 @@ export default function Settings() {
         </Button>
       </Card>
 
+      {/* Section WhatsApp Business API */}
+      <Card className="p-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5 text-green-600" />
+          <h2 className="font-semibold">Connexion WhatsApp Business</h2>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          Pour le chatbot automatique. Les tokens sont chiffrés sur nos serveurs et ne sont jamais réaffichés :
+          laissez un champ vide pour conserver la valeur actuelle.
+        </p>
+
+        <div className="space-y-2">
+          <Label htmlFor="whatsappPhoneNumberId">Phone number ID</Label>
+          <div className="flex gap-2">
+            <Input
+              id="whatsappPhoneNumberId"
+              inputMode="numeric"
+              autoComplete="off"
+              value={phoneNumberId}
+              onChange={(e) => setPhoneNumberId(e.target.value)}
+              placeholder="Ex: 106540352242922"
+            />
+            <Button
+              variant="outline"
+              onClick={handlePhoneNumberIdSave}
+              disabled={isSavingPhoneNumberId || phoneNumberId.trim() === (vendorConfig?.whatsappPhoneNumberId || "")}
+            >
+              {isSavingPhoneNumberId ? <Loader2 className="w-4 h-4 animate-spin" /> : "Connecter"}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Dans Meta for Developers, WhatsApp &gt; Configuration de l'API. Un numéro ne peut être connecté qu'à une seule boutique.
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="whatsappAccessToken" className="flex items-center justify-between gap-2">
+              Token d'accès
+              <Badge variant={secretsStatus?.whatsappAccessToken ? "default" : "secondary"}>
+                {secretsStatus?.whatsappAccessToken ? "Configuré" : "Non configuré"}
+              </Badge>
+            </Label>
+            <Input
+              id="whatsappAccessToken"
+              type="password"
+              autoComplete="off"
+              value={whatsappSecrets.whatsappAccessToken}
+              onChange={(e) => setWhatsappSecrets({ ...whatsappSecrets, whatsappAccessToken: e.target.value })}
+              placeholder={secretsStatus?.whatsappAccessToken ? "••••••••" : "EAAG..."}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="whatsappVerifyToken" className="flex items-center justify-between gap-2">
+              Token de vérification du webhook
+              <Badge variant={secretsStatus?.whatsappVerifyToken ? "default" : "secondary"}>
+                {secretsStatus?.whatsappVerifyToken ? "Configuré" : "Non configuré"}
+              </Badge>
+            </Label>
+            <Input
+              id="whatsappVerifyToken"
+              type="password"
+              autoComplete="off"
+              value={whatsappSecrets.whatsappVerifyToken}
+              onChange={(e) => setWhatsappSecrets({ ...whatsappSecrets, whatsappVerifyToken: e.target.value })}
+              placeholder={secretsStatus?.whatsappVerifyToken ? "••••••••" : "8 caractères minimum"}
+            />
+            <p className="text-xs text-muted-foreground">
+              À saisir aussi dans la configuration du webhook de votre app Meta
+            </p>
+          </div>
+        </div>
+
+        <Button
+          onClick={handleSecretsSave}
+          className="w-full"
+          disabled={isSavingSecrets || (!whatsappSecrets.whatsappAccessToken.trim() && !whatsappSecrets.whatsappVerifyToken.trim())}
+        >
+          {isSavingSecrets ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="w-4 h-4 mr-2" />
+          )}
+          Enregistrer les identifiants
+        </Button>
+      </Card>
+
       {/* Section Notifications */}
       <Card className="p-6 space-y-4">
         <div className="flex items-center gap-2">
@@ -516,7 +643,7 @@ export default function Settings() {
             <div className="space-y-0.5">
               <Label>Notifications sonores</Label>
               <p className="text-xs text-muted-foreground">
-                Son lors de la réception d'un paiement
+                Son à chaque nouvelle commande ou paiement reçu
               </p>
             </div>
             <Switch
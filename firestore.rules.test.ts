@@ -0,0 +1,201 @@
+import { readFileSync } from "fs";
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+
+// Runs inside `firebase emulators:exec`, which sets FIRESTORE_EMULATOR_HOST
+let env: RulesTestEnvironment;
+
+const VENDOR = "vendor-1";
+const OTHER = "vendor-2";
+const now = Timestamp.now();
+
+function vendorDb(uid: string) {
+  return env.authenticatedContext(uid).firestore();
+}
+
+beforeAll(async () => {
+  env = await initializeTestEnvironment({
+    projectId: "livepay-rules-test",
+    firestore: { rules: readFileSync("firestore.rules", "utf8") },
+  });
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+// Seeds with the Admin-like context, as the server would
+beforeEach(async () => {
+  await env.clearFirestore();
+  await env.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await setDoc(doc(db, "products", "robe"), {
+      vendorId: VENDOR,
+      name: "Robe wax",
+      keyword: "ROBE1",
+      price: 10000,
+      stock: 5,
+      reservedStock: 1,
+      active: true,
+      createdAt: now,
+    });
+    await setDoc(doc(db, "orders", "order-1"), {
+      vendorId: VENDOR,
+      productId: "robe",
+      clientPhone: "221771234567",
+      quantity: 1,
+      totalAmount: 10000,
+      status: "reserved",
+      createdAt: now,
+      updatedAt: now,
+    });
+    await setDoc(doc(db, "vendorConfigs", "config-1"), {
+      vendorId: VENDOR,
+      businessName: "Boutique Awa",
+      status: "active",
+      createdAt: now,
+      updatedAt: now,
+    });
+    await setDoc(doc(db, "clients", `${VENDOR}_221771234567`), {
+      vendorId: VENDOR,
+      phone: "221771234567",
+      trustScore: 50,
+      tier: "bronze",
+      totalOrders: 1,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await setDoc(doc(db, "vendorSecrets", VENDOR), { vendorId: VENDOR, whatsappAccessTokenEncrypted: "x" });
+    await setDoc(doc(db, "conversations", `${VENDOR}_221771234567`), { vendorId: VENDOR, step: "idle" });
+    await setDoc(doc(db, "phoneNumberIds", "106540352242922"), { vendorId: VENDOR, createdAt: now });
+    await setDoc(doc(db, "processedMessages", "wamid.1"), { vendorId: VENDOR, orderId: "order-1", createdAt: now });
+  });
+});
+
+describe("tenant isolation", () => {
+  it("lets a vendor list its own orders only", async () => {
+    await assertSucceeds(getDocs(query(collection(vendorDb(VENDOR), "orders"), where("vendorId", "==", VENDOR))));
+    await assertFails(getDocs(query(collection(vendorDb(OTHER), "orders"), where("vendorId", "==", VENDOR))));
+    await assertFails(getDocs(collection(vendorDb(OTHER), "orders")));
+  });
+
+  it("hides another vendor's clients and configs", async () => {
+    await assertFails(getDocs(query(collection(vendorDb(OTHER), "clients"), where("vendorId", "==", VENDOR))));
+    await assertFails(getDocs(query(collection(vendorDb(OTHER), "vendorConfigs"), where("vendorId", "==", VENDOR))));
+  });
+});
+
+describe("orders", () => {
+  it("cannot be created from the browser", async () => {
+    await assertFails(
+      setDoc(doc(vendorDb(VENDOR), "orders", "order-2"), {
+        vendorId: VENDOR,
+        productId: "robe",
+        clientPhone: "221771234567",
+        quantity: 1,
+        totalAmount: 10000,
+        status: "paid",
+        createdAt: now,
+        updatedAt: now,
+      })
+    );
+  });
+
+  it("keep their status, and only notes are editable", async () => {
+    const ref = doc(vendorDb(VENDOR), "orders", "order-1");
+    await assertFails(updateDoc(ref, { status: "paid" }));
+    await assertFails(updateDoc(ref, { totalAmount: 1 }));
+    await assertSucceeds(updateDoc(ref, { notes: "Livrer après 18h", updatedAt: Timestamp.now() }));
+  });
+});
+
+describe("products", () => {
+  it("keep reservedStock out of the vendor's hands", async () => {
+    const ref = doc(vendorDb(VENDOR), "products", "robe");
+    await assertFails(updateDoc(ref, { reservedStock: 0 }));
+    await assertSucceeds(updateDoc(ref, { stock: 8 }));
+    await assertFails(
+      setDoc(doc(vendorDb(VENDOR), "products", "jupe"), {
+        vendorId: VENDOR,
+        name: "Jupe",
+        keyword: "JUPE1",
+        price: 5000,
+        stock: 2,
+        reservedStock: 2,
+      })
+    );
+  });
+});
+
+describe("server-only collections", () => {
+  it("lock out vendorSecrets, conversations, phoneNumberIds and processedMessages", async () => {
+    const db = vendorDb(VENDOR);
+    await assertFails(getDoc(doc(db, "vendorSecrets", VENDOR)));
+    await assertFails(setDoc(doc(db, "vendorSecrets", VENDOR), { whatsappAccessTokenEncrypted: "y" }));
+    await assertFails(getDoc(doc(db, "conversations", `${VENDOR}_221771234567`)));
+    await assertFails(setDoc(doc(db, "conversations", `${VENDOR}_221771234567`), { step: "idle" }));
+    await assertFails(getDoc(doc(db, "phoneNumberIds", "106540352242922")));
+    await assertFails(setDoc(doc(db, "phoneNumberIds", "999999"), { vendorId: OTHER }));
+    await assertFails(getDoc(doc(db, "processedMessages", "wamid.1")));
+    await assertFails(setDoc(doc(db, "processedMessages", "wamid.2"), { vendorId: VENDOR }));
+  });
+
+  it("keep whatsappPhoneNumberId out of client config writes", async () => {
+    await assertFails(updateDoc(doc(vendorDb(VENDOR), "vendorConfigs", "config-1"), { whatsappPhoneNumberId: "999999" }));
+    await assertSucceeds(updateDoc(doc(vendorDb(VENDOR), "vendorConfigs", "config-1"), { welcomeMessage: "Bienvenue" }));
+  });
+});
+
+describe("clients", () => {
+  const clientId = `${VENDOR}_221771234567`;
+
+  it("only let the vendor edit the profile fields", async () => {
+    const ref = doc(vendorDb(VENDOR), "clients", clientId);
+    await assertSucceeds(updateDoc(ref, { notes: "Taille M", tags: ["fidèle"], updatedAt: Timestamp.now() }));
+    await assertFails(updateDoc(ref, { trustScore: 100 }));
+    await assertFails(updateDoc(ref, { tier: "gold" }));
+    await assertFails(updateDoc(ref, { totalOrders: 0 }));
+  });
+
+  it("are created with profile fields only", async () => {
+    const db = vendorDb(VENDOR);
+    await assertSucceeds(
+      setDoc(doc(db, "clients", `${VENDOR}_221770000000`), {
+        vendorId: VENDOR,
+        phone: "221770000000",
+        name: "Fatou",
+        createdAt: now,
+        updatedAt: now,
+      })
+    );
+    await assertFails(
+      setDoc(doc(db, "clients", `${VENDOR}_221770000001`), {
+        vendorId: VENDOR,
+        phone: "221770000001",
+        trustScore: 100,
+        tier: "gold",
+      })
+    );
+  });
+
+  it("cannot be deleted by the vendor", async () => {
+    await assertFails(deleteDoc(doc(vendorDb(VENDOR), "clients", clientId)));
+  });
+});
@@ -0,0 +1,31 @@
+import "dotenv/config";
+import { db } from "../server/firebase";
+import { getRepositories } from "../server/repositories";
+
+// Writes the phoneNumberIds mapping for numbers set in vendorConfigs before it
+// existed: `npm run phone-numbers:migrate`. The oldest config keeps a number
+// claimed twice; the others are disconnected and logged. Safe to run again.
+async function main() {
+  const { vendorConfigs } = getRepositories();
+  const configs = await db.collection("vendorConfigs").orderBy("createdAt").get();
+
+  for (const doc of configs.docs) {
+    const config = doc.data();
+    const vendorId = config.vendorId as string;
+    const phoneNumberId: string | undefined = config.whatsappPhoneNumberId || undefined;
+    if (!phoneNumberId) continue;
+
+    const claim = await vendorConfigs.setPhoneNumberId(vendorId, phoneNumberId);
+    if (claim === "taken") {
+      await vendorConfigs.setPhoneNumberId(vendorId, null);
+      console.warn(`[phone-numbers] ${vendorId}: ${phoneNumberId} already belongs to another vendor, disconnected`);
+    } else {
+      console.log(`[phone-numbers] ${vendorId}: ${phoneNumberId} ${claim}`);
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
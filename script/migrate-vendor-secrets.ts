@@ -0,0 +1,46 @@
+import "dotenv/config";
+import { db, FieldValue } from "../server/firebase";
+import { getRepositories } from "../server/repositories";
+import { publicVendorProfileConverter, userConverter } from "@shared/converters";
+import { publicVendorProfileFrom } from "@shared/types";
+
+// Moves WhatsApp tokens out of vendorConfigs into vendorSecrets and writes the
+// public vendor profiles: `npm run secrets:migrate`. Safe to run again.
+async function main() {
+  const { vendorSecrets } = getRepositories();
+  const configs = await db.collection("vendorConfigs").get();
+
+  for (const doc of configs.docs) {
+    const config = doc.data();
+    const vendorId = config.vendorId as string;
+    const accessToken: string | undefined = config.whatsappAccessToken || undefined;
+    const verifyToken: string | undefined = config.whatsappVerifyToken || undefined;
+
+    if (accessToken || verifyToken) {
+      await vendorSecrets.update(vendorId, {
+        ...(accessToken && { whatsappAccessToken: accessToken }),
+        ...(verifyToken && { whatsappVerifyToken: verifyToken }),
+      });
+    }
+    if ("whatsappAccessToken" in config || "whatsappVerifyToken" in config) {
+      await doc.ref.update({
+        whatsappAccessToken: FieldValue.delete(),
+        whatsappVerifyToken: FieldValue.delete(),
+      });
+    }
+
+    const user = (await db.collection("users").doc(vendorId).withConverter(userConverter).get()).data() ?? null;
+    await db
+      .collection("publicVendorProfiles")
+      .doc(vendorId)
+      .withConverter(publicVendorProfileConverter)
+      .set(publicVendorProfileFrom(vendorId, user, { businessName: config.businessName, mobileMoneyNumber: config.mobileMoneyNumber }));
+
+    console.log(`[secrets] ${vendorId}: ${accessToken || verifyToken ? "tokens moved" : "no tokens"}, public profile written`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,21 @@
+import "dotenv/config";
+import { db } from "../server/firebase";
+import { rebuildVendorStats } from "../server/stats";
+
+// Recomputes vendorStats from the orders: `npm run stats:rebuild [vendorId]`
+async function main() {
+  const vendorId = process.argv[2];
+  const vendorIds = vendorId
+    ? [vendorId]
+    : (await db.collection("vendorConfigs").get()).docs.map((d) => d.data().vendorId as string);
+
+  for (const id of vendorIds) {
+    const count = await rebuildVendorStats(id);
+    console.log(`[stats] ${id}: ${count} order(s)`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
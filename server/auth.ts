@@ -0,0 +1,30 @@
+import type { Request, Response, NextFunction } from "express";
+import { adminAuth } from "./firebase";
+
+/**
+ * Vendor authentication for /api routes
+ * The client sends its Firebase ID token as `Authorization: Bearer <token>`
+ * (see apiRequest in client/src/lib/queryClient.ts).
+ */
+
+declare module "http" {
+  interface IncomingMessage {
+    uid?: string;
+  }
+}
+
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const header = req.get("authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice("Bearer ".length) : "";
+  if (!token) {
+    return res.status(401).json({ message: "Authentification requise" });
+  }
+
+  try {
+    const decoded = await adminAuth.verifyIdToken(token);
+    req.uid = decoded.uid;
+    next();
+  } catch {
+    res.status(401).json({ message: "Session invalide" });
+  }
+}
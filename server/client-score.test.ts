@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyOrderEvent,
+  computeTier,
+  computeTrustScore,
+  EMPTY_COUNTERS,
+  isTrustScoreEstablished,
+  TRUST_SCORE_WEIGHTS,
+  type ClientCounters,
+  type ClientOrderEvent,
+} from "./client-score";
+
+const at = new Date("2024-05-01T10:00:00Z");
+
+function replay(events: ClientOrderEvent[]): ClientCounters {
+  return events.reduce(applyOrderEvent, EMPTY_COUNTERS);
+}
+
+function paidOrders(count: number, amount = 20000, paymentTimeSeconds = 90): ClientOrderEvent[] {
+  return Array.from({ length: count }, (): ClientOrderEvent[] => [
+    { type: "created", at },
+    { type: "paid", at, amount, paymentTimeSeconds },
+  ]).flat();
+}
+
+function expiredOrders(count: number): ClientOrderEvent[] {
+  return Array.from({ length: count }, (): ClientOrderEvent[] => [
+    { type: "created", at },
+    { type: "expired", at },
+  ]).flat();
+}
+
+describe("applyOrderEvent", () => {
+  it("counts orders, payments, expiries and spending", () => {
+    const counters = replay([...paidOrders(2, 5000), ...expiredOrders(1)]);
+    expect(counters).toMatchObject({
+      totalOrders: 3,
+      successfulPayments: 2,
+      expiredReservations: 1,
+      totalSpent: 10000,
+    });
+  });
+
+  it("keeps a running average of the payment time", () => {
+    const counters = replay([
+      { type: "paid", at, amount: 1000, paymentTimeSeconds: 60 },
+      { type: "paid", at, amount: 1000, paymentTimeSeconds: 180 },
+    ]);
+    expect(counters.avgPaymentTimeSeconds).toBe(120);
+  });
+});
+
+describe("computeTrustScore", () => {
+  it("starts new clients at the base score", () => {
+    expect(computeTrustScore(EMPTY_COUNTERS)).toBe(TRUST_SCORE_WEIGHTS.base);
+  });
+
+  it("rises for regular, fast payers and stays within 100", () => {
+    const score = computeTrustScore(replay(paidOrders(12)));
+    expect(score).toBeGreaterThan(90);
+    expect(score).toBeLessThanOrEqual(100);
+  });
+
+  it("sinks serial reservers who never pay", () => {
+    const score = computeTrustScore(replay(expiredOrders(4)));
+    expect(score).toBeLessThan(10);
+    expect(score).toBeGreaterThanOrEqual(0);
+  });
+
+  it("weighs a single expiry less than a history of them", () => {
+    expect(computeTrustScore(replay(expiredOrders(1)))).toBeGreaterThan(computeTrustScore(replay(expiredOrders(3))));
+  });
+
+  it("rewards paying fast over paying slowly", () => {
+    const fast = computeTrustScore(replay(paidOrders(3, 1000, 60)));
+    const slow = computeTrustScore(replay(paidOrders(3, 1000, 1800)));
+    expect(fast).toBeGreaterThan(slow);
+  });
+});
+
+describe("isTrustScoreEstablished", () => {
+  it("waits for a paid or expired order", () => {
+    expect(isTrustScoreEstablished(EMPTY_COUNTERS)).toBe(false);
+    expect(isTrustScoreEstablished(replay([{ type: "created", at }, { type: "created", at }]))).toBe(false);
+    expect(isTrustScoreEstablished(replay(expiredOrders(1)))).toBe(true);
+    expect(isTrustScoreEstablished(replay(paidOrders(1)))).toBe(true);
+  });
+});
+
+describe("computeTier", () => {
+  it("needs both the spending and the payments of a tier", () => {
+    expect(computeTier(EMPTY_COUNTERS)).toBe("bronze");
+    expect(computeTier(replay(paidOrders(3, 20000)))).toBe("silver");
+    expect(computeTier(replay(paidOrders(12, 20000)))).toBe("gold");
+    expect(computeTier(replay(paidOrders(20, 30000)))).toBe("diamond");
+    // Big spender, but a single order
+    expect(computeTier(replay(paidOrders(1, 1_000_000)))).toBe("bronze");
+  });
+});
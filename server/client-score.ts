@@ -0,0 +1,104 @@
+import type { Client, ClientTier, PaymentMethod } from "@shared/types";
+
+/**
+ * Client trust score and tier
+ * Derived from the order counters kept on each Client document (server/clients.ts).
+ * The score starts neutral and moves with the share of reservations that were
+ * paid, weighted by how many orders back it; reservations left to expire cost
+ * extra so serial "reservers" drop below VendorConfig.minTrustScoreRequired
+ * quickly. Tiers reward spending from regular payers.
+ */
+
+export const TRUST_SCORE_WEIGHTS = {
+  // Score of a client with no paid or expired order yet
+  base: 50,
+  // Points above / below base for a 100% / 0% payment rate
+  paymentRate: 40,
+  // Resolved orders (paid + expired) before the payment rate counts fully
+  confidenceOrders: 5,
+  // Points lost per expired reservation, on top of the payment rate
+  expiredPenalty: 4,
+  maxExpiredPenalty: 24,
+  // Bonus for paying fast: full under fastPaymentSeconds, none past slowPaymentSeconds
+  speedBonus: 10,
+  fastPaymentSeconds: 120,
+  slowPaymentSeconds: 900,
+};
+
+// Checked from the highest tier down; a client needs both figures
+export const TIER_THRESHOLDS: { tier: Exclude<ClientTier, "bronze">; minSpent: number; minPayments: number }[] = [
+  { tier: "diamond", minSpent: 500_000, minPayments: 20 },
+  { tier: "gold", minSpent: 200_000, minPayments: 10 },
+  { tier: "silver", minSpent: 50_000, minPayments: 3 },
+];
+
+export type ClientCounters = Pick<
+  Client,
+  "totalOrders" | "successfulPayments" | "expiredReservations" | "totalSpent" | "avgPaymentTimeSeconds"
+>;
+
+export type ClientOrderEvent =
+  | { type: "created"; at: Date }
+  | { type: "paid"; at: Date; amount: number; paymentTimeSeconds: number; paymentMethod?: PaymentMethod }
+  | { type: "expired"; at: Date };
+
+export const EMPTY_COUNTERS: ClientCounters = {
+  totalOrders: 0,
+  successfulPayments: 0,
+  expiredReservations: 0,
+  totalSpent: 0,
+};
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+export function applyOrderEvent(counters: ClientCounters, event: ClientOrderEvent): ClientCounters {
+  switch (event.type) {
+    case "created":
+      return { ...counters, totalOrders: counters.totalOrders + 1 };
+    case "expired":
+      return { ...counters, expiredReservations: counters.expiredReservations + 1 };
+    case "paid": {
+      const successfulPayments = counters.successfulPayments + 1;
+      const previousTotal = (counters.avgPaymentTimeSeconds ?? 0) * counters.successfulPayments;
+      return {
+        ...counters,
+        successfulPayments,
+        totalSpent: counters.totalSpent + event.amount,
+        avgPaymentTimeSeconds: Math.round((previousTotal + event.paymentTimeSeconds) / successfulPayments),
+      };
+    }
+  }
+}
+
+// Until an order was paid or left to expire the score is just the base, so
+// VendorConfig.minTrustScoreRequired cannot judge the client yet
+export function isTrustScoreEstablished(counters: ClientCounters): boolean {
+  return counters.successfulPayments + counters.expiredReservations > 0;
+}
+
+export function computeTrustScore(counters: ClientCounters, weights = TRUST_SCORE_WEIGHTS): number {
+  const resolved = counters.successfulPayments + counters.expiredReservations;
+  if (resolved === 0) return weights.base;
+
+  const paymentRate = counters.successfulPayments / resolved;
+  const confidence = Math.min(1, resolved / weights.confidenceOrders);
+  const rateScore = (paymentRate - 0.5) * 2 * weights.paymentRate * confidence;
+  const expiredPenalty = Math.min(weights.maxExpiredPenalty, counters.expiredReservations * weights.expiredPenalty);
+
+  const avg = counters.avgPaymentTimeSeconds;
+  const speedScore = avg === undefined
+    ? 0
+    : weights.speedBonus *
+      clamp((weights.slowPaymentSeconds - avg) / (weights.slowPaymentSeconds - weights.fastPaymentSeconds), 0, 1);
+
+  return Math.round(clamp(weights.base + rateScore - expiredPenalty + speedScore, 0, 100));
+}
+
+export function computeTier(counters: ClientCounters, thresholds = TIER_THRESHOLDS): ClientTier {
+  const match = thresholds.find(
+    (t) => counters.totalSpent >= t.minSpent && counters.successfulPayments >= t.minPayments
+  );
+  return match?.tier ?? "bronze";
+}
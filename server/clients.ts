@@ -0,0 +1,79 @@
+import { db } from "./firebase";
+import { clientConverter } from "@shared/converters";
+import { normalizePhone } from "@shared/phone";
+import type { Client } from "@shared/types";
+import {
+  applyOrderEvent,
+  computeTier,
+  computeTrustScore,
+  EMPTY_COUNTERS,
+  isTrustScoreEstablished,
+  type ClientOrderEvent,
+} from "./client-score";
+
+/**
+ * Client (CRM) documents, one per vendor and customer phone
+ * Document id is `${vendorId}_${normalizedPhone}` so order events can update it
+ * without a query. Updated inside the reservation transactions
+ * (server/reservations.ts) when an order is created, paid or expired; the trust
+ * score and tier are recomputed each time (server/client-score.ts).
+ */
+
+type Transaction = FirebaseFirestore.Transaction;
+
+export function clientRef(vendorId: string, phone: string) {
+  return db.collection("clients").doc(`${vendorId}_${normalizePhone(phone)}`).withConverter(clientConverter);
+}
+
+export interface ClientSnapshot {
+  ref: ReturnType<typeof clientRef>;
+  vendorId: string;
+  phone: string;
+  client: Client | null;
+}
+
+// Read part, to call before any write of the transaction
+export async function getClientSnapshot(tx: Transaction, vendorId: string, phone: string): Promise<ClientSnapshot> {
+  const ref = clientRef(vendorId, phone);
+  const snap = await tx.get(ref);
+  return { ref, vendorId, phone: normalizePhone(phone), client: snap.data() ?? null };
+}
+
+// Trust score used for orders and for VendorConfig.minTrustScoreRequired
+export function trustScoreOf(snapshot: ClientSnapshot): number {
+  return snapshot.client?.trustScore ?? computeTrustScore(EMPTY_COUNTERS);
+}
+
+// First-time customers always pass, whatever the vendor's threshold
+export function meetsTrustThreshold(snapshot: ClientSnapshot, minScore: number | undefined): boolean {
+  if (!minScore || !snapshot.client || !isTrustScoreEstablished(snapshot.client)) return true;
+  return trustScoreOf(snapshot) >= minScore;
+}
+
+export function recordClientOrderEvent(
+  tx: Transaction,
+  snapshot: ClientSnapshot,
+  event: ClientOrderEvent,
+  details: { clientName?: string } = {}
+): void {
+  const current = snapshot.client;
+  const counters = applyOrderEvent(current ?? EMPTY_COUNTERS, event);
+
+  const client: Client = {
+    ...current,
+    id: snapshot.ref.id,
+    vendorId: snapshot.vendorId,
+    phone: snapshot.phone,
+    // Keeps the name the vendor may have corrected on the /clients page
+    name: current?.name || details.clientName,
+    ...counters,
+    trustScore: computeTrustScore(counters),
+    tier: computeTier(counters),
+    preferredPayment: (event.type === "paid" && event.paymentMethod) || current?.preferredPayment,
+    firstOrderAt: current?.firstOrderAt ?? (event.type === "created" ? event.at : undefined),
+    lastOrderAt: event.type === "created" ? event.at : current?.lastOrderAt,
+    createdAt: current?.createdAt ?? event.at,
+    updatedAt: event.at,
+  };
+  tx.set(snapshot.ref, client);
+}
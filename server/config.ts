@@ -0,0 +1,6 @@
+/**
+ * Server settings read from the environment
+ */
+
+// Public origin of the app, for the links sent to buyers and PSPs
+export const APP_HOST = process.env.APP_HOST || "https://livepay.tech";
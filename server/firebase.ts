@@ -0,0 +1,20 @@
+import { initializeApp, getApps, applicationDefault } from "firebase-admin/app";
+import { getFirestore, Timestamp, FieldValue, FieldPath } from "firebase-admin/firestore";
+import { getAuth } from "firebase-admin/auth";
+
+/**
+ * Firebase Admin SDK for the server
+ * Uses Application Default Credentials (GOOGLE_APPLICATION_CREDENTIALS locally,
+ * the runtime service account on Cloud Functions / Cloud Run).
+ * Admin access bypasses firestore.rules, so only server code should import this.
+ */
+
+const app = getApps()[0] || initializeApp({
+  credential: applicationDefault(),
+  projectId: process.env.FIREBASE_PROJECT_ID || "live-pay-97ac6",
+});
+
+export const db = getFirestore(app);
+export const adminAuth = getAuth(app);
+
+export { Timestamp, FieldValue, FieldPath };
@@ -2,6 +2,7 @@ import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
+import { startExpiryJob } from "./jobs/expire-reservations";
 import { createServer } from "http";
 
 const app = express();
@@ -83,10 +84,13 @@ app.use((req, res, next) => {
     const { setupVite } = await import("./vite");
     await setupVite(httpServer, app);
   }
-  const PORT = process.env.PORT || 9002;
+  const PORT = Number(process.env.PORT) || 9002;
 
   app.listen(PORT, '0.0.0.0', () => {
     console.log(`[express] serving on port ${PORT}`);
   });
 
+  // Releases stock held by unpaid orders (every 30s)
+  startExpiryJob();
+
 })();
@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { vendorConfigSchema } from "@shared/types";
+import { createMemoryRepositories, setRepositories, type MemoryRepositories } from "../repositories";
+import { firestore } from "../testing/firestore";
+import { addOrder, addProduct, makeOrder, makeProduct, VENDOR } from "../testing/fixtures";
+import { expireReservations } from "./expire-reservations";
+
+vi.mock("../firebase", async () => (await import("../testing/firestore")).firebaseModule);
+
+const MINUTE = 60 * 1000;
+
+let repositories: MemoryRepositories;
+
+function releasedIds(): string[] {
+  return firestore.list("orders").filter((order) => order.status === "expired").map((order) => String(order.id));
+}
+
+beforeEach(() => {
+  firestore.clear();
+  repositories = createMemoryRepositories();
+  setRepositories(repositories);
+  addProduct(repositories, makeProduct("robe", { stock: 1000, reservedStock: 1000 }));
+});
+
+describe("expireReservations", () => {
+  it("expires orders past their deadline and keeps the others", async () => {
+    addOrder(repositories, makeOrder("late", { reservedUntil: new Date(Date.now() - MINUTE) }));
+    addOrder(repositories, makeOrder("on-time", { reservedUntil: new Date(Date.now() + MINUTE) }));
+    addOrder(repositories, makeOrder("paid", { status: "paid", reservedUntil: new Date(Date.now() - MINUTE) }));
+
+    expect(await expireReservations()).toBe(1);
+    expect(releasedIds()).toEqual(["late"]);
+  });
+
+  it("reads past the first page of expired orders", async () => {
+    const start = Date.now() - 24 * 60 * MINUTE;
+    for (let i = 0; i < 450; i++) {
+      addOrder(repositories, makeOrder(`order-${i}`, { reservedUntil: new Date(start + i * 1000) }));
+    }
+
+    expect(await expireReservations()).toBe(450);
+    expect(new Set(releasedIds()).size).toBe(450);
+  });
+
+  it("computes the deadline of legacy orders from the vendor's reservation duration", async () => {
+    const config = vendorConfigSchema.parse({
+      id: "config-1",
+      vendorId: VENDOR,
+      businessName: "Boutique Awa",
+      reservationDurationMinutes: 30,
+    });
+    repositories.vendorConfigs.items.set(config.id, config);
+    addOrder(repositories, makeOrder("old", { createdAt: new Date(Date.now() - 45 * MINUTE) }));
+    addOrder(repositories, makeOrder("recent", { createdAt: new Date(Date.now() - 15 * MINUTE) }));
+
+    await expireReservations();
+    expect(releasedIds()).toEqual(["old"]);
+  });
+
+  it("keeps sweeping when one order fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    addOrder(repositories, makeOrder("first", { reservedUntil: new Date(Date.now() - 2 * MINUTE) }));
+    addOrder(repositories, makeOrder("second", { reservedUntil: new Date(Date.now() - MINUTE) }));
+    // Hand-edited document that no longer matches the order schema: its transaction fails
+    firestore.seed("orders/first", {});
+
+    expect(await expireReservations()).toBe(1);
+    expect(releasedIds()).toEqual(["second"]);
+  });
+
+  it("gives the reserved units back", async () => {
+    addOrder(repositories, makeOrder("late", { quantity: 3, reservedUntil: new Date(Date.now() - MINUTE) }));
+
+    await expireReservations();
+    expect(firestore.read("products/robe")).toMatchObject({ reservedStock: 997 });
+  });
+});
@@ -0,0 +1,113 @@
+import type { Order } from "@shared/types";
+import { getRepositories } from "../repositories";
+import { releaseReservation } from "../reservations";
+
+/**
+ * Reservation expiry sweeper
+ * Every 30s, expires reserved/pending orders past their reservedUntil
+ * (or createdAt + vendor reservationDurationMinutes for orders without one)
+ * and gives their stock back.
+ * Safe with several server instances: releaseReservation re-checks the order
+ * status inside a transaction, so only one instance expires a given order.
+ * Candidates are read page by page, so orders that keep failing at the head of
+ * the queue cannot starve the ones behind them.
+ */
+
+const SWEEP_INTERVAL_MS = 30 * 1000;
+const BATCH_SIZE = 200;
+// Upper bound on the orders read per sweep; the rest waits for the next tick
+const MAX_PAGES = 10;
+const DEFAULT_RESERVATION_MINUTES = 10;
+
+interface ExpiredCandidate {
+  id: string;
+  vendorId: string;
+  clientPhone: string;
+}
+
+// Reads every page of a query ordered the same way as its cursor
+async function readPages(list: (after?: Order) => Promise<Order[]>): Promise<Order[]> {
+  const result: Order[] = [];
+  let after: Order | undefined;
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const orders = await list(after);
+    result.push(...orders);
+    if (orders.length < BATCH_SIZE) break;
+    after = orders[orders.length - 1];
+  }
+  return result;
+}
+
+async function findPastReservedUntil(now: Date): Promise<ExpiredCandidate[]> {
+  const { orders } = getRepositories();
+  const candidates = await readPages((after) => orders.listHoldingExpiredAt(now, BATCH_SIZE, after));
+  return candidates.map((o) => ({ id: o.id, vendorId: o.vendorId, clientPhone: o.clientPhone }));
+}
+
+// Older orders were written with reservedUntil: null (and never held stock)
+async function findWithoutReservedUntil(now: Date): Promise<ExpiredCandidate[]> {
+  const { orders, vendorConfigs } = getRepositories();
+  const candidates = await readPages((after) => orders.listHoldingWithoutDeadline(BATCH_SIZE, after));
+  if (candidates.length === 0) return [];
+
+  const durations = new Map<string, number>();
+  const result: ExpiredCandidate[] = [];
+
+  for (const order of candidates) {
+    if (!durations.has(order.vendorId)) {
+      const config = await vendorConfigs.getByVendorId(order.vendorId);
+      durations.set(order.vendorId, config?.reservationDurationMinutes || DEFAULT_RESERVATION_MINUTES);
+    }
+
+    const deadline = order.createdAt.getTime() + durations.get(order.vendorId)! * 60 * 1000;
+    if (deadline <= now.getTime()) {
+      result.push({ id: order.id, vendorId: order.vendorId, clientPhone: order.clientPhone });
+    }
+  }
+  return result;
+}
+
+export async function expireReservations(): Promise<number> {
+  const now = new Date();
+  const candidates = [
+    ...(await findPastReservedUntil(now)),
+    ...(await findWithoutReservedUntil(now)),
+  ];
+
+  let expired = 0;
+  for (const order of candidates) {
+    try {
+      const released = await releaseReservation(
+        order.id,
+        "expired",
+        { type: "system", id: "expiry-job" },
+        "Délai de paiement dépassé"
+      );
+      if (!released) continue; // paid or expired meanwhile, possibly by another instance
+      expired++;
+    } catch (error) {
+      console.error(`[expiry] Failed to expire order ${order.id}:`, error);
+    }
+  }
+  return expired;
+}
+
+export function startExpiryJob(): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlapping a slow sweep
+    if (running) return;
+    running = true;
+    try {
+      const expired = await expireReservations();
+      if (expired > 0) console.log(`[expiry] Expired ${expired} reservation(s)`);
+    } catch (error) {
+      console.error("[expiry] Sweep failed:", error);
+    } finally {
+      running = false;
+    }
+  }, SWEEP_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+}
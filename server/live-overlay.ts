@@ -0,0 +1,73 @@
+import { db, Timestamp, FieldValue } from "./firebase";
+import type { Order } from "@shared/types";
+
+/**
+ * Stream overlay (liveOverlays/{token})
+ * Public projection of a live session read by the OBS browser source
+ * (client/src/pages/overlay.tsx). The vendor's client mirrors the "now showing"
+ * lineup entry; the reservation transactions keep the counters and the paid
+ * orders ticker up to date here. Only masked customer names are written.
+ */
+
+// Paid orders kept in the ticker
+export const OVERLAY_RECENT_ORDERS = 8;
+
+type Transaction = FirebaseFirestore.Transaction;
+type DocumentSnapshot = FirebaseFirestore.DocumentSnapshot;
+
+// "Aminata Diop" → "Ami*** D."; without a name, "Client •••34"
+export function maskCustomerName(name: string | undefined | null, phone: string): string {
+  const words = (name || "").trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return `Client •••${phone.slice(-2)}`;
+
+  const [first, ...rest] = words;
+  const masked = first.length > 3 ? `${first.slice(0, 3)}***` : first;
+  return rest.length > 0 ? `${masked} ${rest[rest.length - 1][0].toUpperCase()}.` : masked;
+}
+
+// Reads the overlay of a session inside the transaction (before any write)
+export async function getOverlaySnapshot(
+  tx: Transaction,
+  session: { overlayToken?: string | null } | undefined
+): Promise<DocumentSnapshot | null> {
+  if (!session?.overlayToken) return null;
+  const snap = await tx.get(db.collection("liveOverlays").doc(session.overlayToken));
+  return snap.exists ? snap : null;
+}
+
+// Mirrors a change of LiveSession.reservedByProduct
+export function recordOverlayReserved(
+  tx: Transaction,
+  overlay: DocumentSnapshot | null,
+  productId: string,
+  quantity: number
+): void {
+  if (!overlay) return;
+  tx.update(overlay.ref, {
+    [`reservedByProduct.${productId}`]: FieldValue.increment(quantity),
+    updatedAt: Timestamp.now(),
+  });
+}
+
+// Puts a paid order at the top of the ticker
+export function recordOverlayPaidOrder(
+  tx: Transaction,
+  overlay: DocumentSnapshot | null,
+  order: Pick<Order, "clientName" | "clientPhone" | "productName" | "quantity">,
+  paidAt: FirebaseFirestore.Timestamp
+): void {
+  if (!overlay) return;
+  const recentOrders = overlay.get("recentOrders") || [];
+  tx.update(overlay.ref, {
+    recentOrders: [
+      {
+        customer: maskCustomerName(order.clientName, order.clientPhone),
+        productName: order.productName || "Commande",
+        quantity: order.quantity,
+        paidAt,
+      },
+      ...recentOrders,
+    ].slice(0, OVERLAY_RECENT_ORDERS),
+    updatedAt: paidAt,
+  });
+}
@@ -0,0 +1,37 @@
+import { randomBytes } from "crypto";
+import type { Order } from "@shared/types";
+import { APP_HOST } from "./config";
+import { getRepositories } from "./repositories";
+
+/**
+ * Payment links (/pay/:token)
+ * Each order gets a random token of its own, unrelated to the order ID, that
+ * only the server resolves (GET /api/pay/:token, POST /api/pay/:token/charge).
+ * The token outlives the reservation so the buyer can still see the outcome
+ * after the PSP redirect; charging stays bounded by reservedUntil.
+ */
+
+export const PAYMENT_TOKEN_TTL_HOURS = 48;
+
+export interface PaymentLink {
+  token: string;
+  url: string;
+  expiresAt: Date;
+}
+
+export function createPaymentLink(now = new Date()): PaymentLink {
+  const token = randomBytes(24).toString("base64url");
+  return {
+    token,
+    url: `${APP_HOST}/pay/${token}`,
+    expiresAt: new Date(now.getTime() + PAYMENT_TOKEN_TTL_HOURS * 60 * 60 * 1000),
+  };
+}
+
+// Null for unknown and expired tokens alike
+export async function resolvePaymentToken(token: string): Promise<Order | null> {
+  if (!/^[A-Za-z0-9_-]{32}$/.test(token)) return null;
+  const order = await getRepositories().orders.findByPaymentToken(token);
+  if (!order?.paymentTokenExpiresAt || order.paymentTokenExpiresAt.getTime() <= Date.now()) return null;
+  return order;
+}
@@ -0,0 +1,162 @@
+import crypto from "crypto";
+import type { PaymentMethod } from "@shared/types";
+import {
+  PaymentProviderError,
+  type ChargeRequest,
+  type ChargeResult,
+  type ChargeStatus,
+  type PaymentProvider,
+  type PaymentWebhookEvent,
+} from "./types";
+
+/**
+ * Bictorys adapter (Wave, Orange Money, card)
+ * Env: BICTORYS_PUBLIC_KEY (charges), BICTORYS_SECRET_KEY (status, refunds),
+ *      BICTORYS_WEBHOOK_SECRET (sent back in X-Secret-Key), BICTORYS_API_URL (optional)
+ */
+
+const DEFAULT_API_URL = "https://api.bictorys.com";
+
+const PAYMENT_TYPES: Record<ChargeRequest["paymentMethod"], string> = {
+  wave: "wave_money",
+  orange_money: "orange_money",
+  card: "card",
+};
+
+const METHODS_BY_TYPE: Record<string, PaymentMethod> = {
+  wave_money: "wave",
+  orange_money: "orange_money",
+  card: "card",
+};
+
+function toChargeStatus(status: string | undefined): ChargeStatus {
+  switch ((status || "").toLowerCase()) {
+    case "succeeded":
+    case "successful":
+    case "paid":
+      return "succeeded";
+    case "failed":
+    case "cancelled":
+    case "expired":
+      return "failed";
+    case "refunded":
+      return "refunded";
+    default:
+      return "pending";
+  }
+}
+
+function headerValue(headers: Record<string, string | string[] | undefined>, name: string): string {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] || "" : value || "";
+}
+
+export class BictorysProvider implements PaymentProvider {
+  readonly name = "bictorys";
+  private apiUrl: string;
+
+  constructor(
+    private publicKey: string,
+    private secretKey: string,
+    private webhookSecret: string,
+    apiUrl = DEFAULT_API_URL
+  ) {
+    this.apiUrl = apiUrl.replace(/\/$/, "");
+  }
+
+  private async request<T>(path: string, init: RequestInit & { apiKey: string }): Promise<T> {
+    const res = await fetch(`${this.apiUrl}${path}`, {
+      ...init,
+      headers: {
+        "X-Api-Key": init.apiKey,
+        "Content-Type": "application/json",
+        ...init.headers,
+      },
+    });
+    if (!res.ok) {
+      const text = (await res.text()) || res.statusText;
+      throw new PaymentProviderError(`Bictorys ${res.status}: ${text}`);
+    }
+    return res.json() as Promise<T>;
+  }
+
+  async createCharge(request: ChargeRequest): Promise<ChargeResult> {
+    const data = await this.request<{ id: string; link?: string; status?: string }>(
+      `/pay/v1/charges?payment_type=${PAYMENT_TYPES[request.paymentMethod]}`,
+      {
+        method: "POST",
+        apiKey: this.publicKey,
+        body: JSON.stringify({
+          amount: request.amount,
+          currency: request.currency,
+          paymentReference: request.orderId,
+          successRedirectUrl: request.successUrl,
+          errorRedirectUrl: request.errorUrl,
+          customerObject: {
+            name: request.customerName || request.customerPhone,
+            phone: request.customerPhone,
+          },
+        }),
+      }
+    );
+
+    return {
+      pspReference: data.id,
+      status: toChargeStatus(data.status),
+      redirectUrl: data.link,
+    };
+  }
+
+  async getChargeStatus(pspReference: string): Promise<ChargeStatus> {
+    const data = await this.request<{ status?: string }>(
+      `/pay/v1/charges/${encodeURIComponent(pspReference)}`,
+      { method: "GET", apiKey: this.secretKey }
+    );
+    return toChargeStatus(data.status);
+  }
+
+  handleWebhook(headers: Record<string, string | string[] | undefined>, rawBody: Buffer): PaymentWebhookEvent {
+    const received = Buffer.from(headerValue(headers, "x-secret-key"));
+    const expected = Buffer.from(this.webhookSecret);
+    if (!this.webhookSecret || received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+      throw new PaymentProviderError("Invalid Bictorys webhook secret", 401);
+    }
+
+    let payload: {
+      id?: string;
+      chargeId?: string;
+      status?: string;
+      paymentReference?: string;
+      paymentMeans?: string;
+      amount?: number | string;
+      currency?: string;
+    };
+    try {
+      payload = JSON.parse(rawBody.toString("utf8"));
+    } catch {
+      throw new PaymentProviderError("Invalid Bictorys webhook payload", 400);
+    }
+
+    const pspReference = payload.chargeId || payload.id;
+    if (!pspReference) {
+      throw new PaymentProviderError("Bictorys webhook without charge id", 400);
+    }
+
+    return {
+      pspReference,
+      status: toChargeStatus(payload.status),
+      orderId: payload.paymentReference,
+      paymentMethod: payload.paymentMeans ? METHODS_BY_TYPE[payload.paymentMeans] : undefined,
+      amount: payload.amount != null && payload.amount !== "" ? Number(payload.amount) : undefined,
+      currency: payload.currency,
+    };
+  }
+
+  async refund(pspReference: string, amount?: number): Promise<void> {
+    await this.request(`/pay/v1/charges/${encodeURIComponent(pspReference)}/refund`, {
+      method: "POST",
+      apiKey: this.secretKey,
+      body: JSON.stringify(amount ? { amount } : {}),
+    });
+  }
+}
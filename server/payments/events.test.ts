@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryRepositories, setRepositories, type MemoryRepositories } from "../repositories";
+import { firestore } from "../testing/firestore";
+import { addOrder, addProduct, makeOrder, makeProduct } from "../testing/fixtures";
+import { processPaymentEvent } from "./events";
+
+vi.mock("../firebase", async () => (await import("../testing/firestore")).firebaseModule);
+vi.mock("../whatsapp/service", () => ({ notifyPaymentReceived: vi.fn(async () => {}) }));
+
+let repositories: MemoryRepositories;
+
+function statusOf(orderId: string): unknown {
+  return firestore.read(`orders/${orderId}`)?.status;
+}
+
+beforeEach(() => {
+  firestore.clear();
+  repositories = createMemoryRepositories();
+  setRepositories(repositories);
+  addProduct(repositories, makeProduct("robe"));
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("processPaymentEvent", () => {
+  it("matches an earlier charge of the order, not only the latest", async () => {
+    addOrder(repositories, makeOrder("order-1"));
+    const charge = { provider: "bictorys", paymentMethod: "wave" as const };
+    await repositories.orders.recordCharge("order-1", { ...charge, pspReference: "ch_1" });
+    await repositories.orders.recordCharge("order-1", { ...charge, pspReference: "ch_2" });
+
+    const order = await repositories.orders.getById("order-1");
+    expect(order?.pspReference).toBe("ch_2");
+    expect(order?.pspReferences).toEqual(["ch_1", "ch_2"]);
+
+    expect(await processPaymentEvent("bictorys", { pspReference: "ch_1", status: "succeeded" })).toBe("confirmed");
+    expect(statusOf("order-1")).toBe("paid");
+  });
+
+  it("falls back to the order id sent back by the PSP", async () => {
+    addOrder(repositories, makeOrder("order-1"));
+
+    const outcome = await processPaymentEvent("bictorys", {
+      pspReference: "ch_unrecorded",
+      status: "succeeded",
+      orderId: "order-1",
+      amount: 10000,
+      currency: "XOF",
+    });
+    expect(outcome).toBe("confirmed");
+    expect(statusOf("order-1")).toBe("paid");
+  });
+
+  it("only trusts the order id along with the amount paid", async () => {
+    addOrder(repositories, makeOrder("order-1"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const event = { pspReference: "ch_unrecorded", status: "succeeded" as const, orderId: "order-1" };
+    expect(await processPaymentEvent("bictorys", event)).toBe("rejected");
+    expect(await processPaymentEvent("bictorys", { ...event, amount: 100 })).toBe("rejected");
+    expect(statusOf("order-1")).toBe("reserved");
+  });
+
+  it("refuses a charge of another amount or currency", async () => {
+    addOrder(repositories, makeOrder("order-1", { pspReference: "ch_1", pspReferences: ["ch_1"] }));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const event = { pspReference: "ch_1", status: "succeeded" as const };
+    expect(await processPaymentEvent("bictorys", { ...event, amount: 5000 })).toBe("rejected");
+    expect(await processPaymentEvent("bictorys", { ...event, amount: 10000, currency: "EUR" })).toBe("rejected");
+    expect(statusOf("order-1")).toBe("reserved");
+  });
+
+  it("keeps a payment that arrives after the reservation expired", async () => {
+    addOrder(repositories, makeOrder("order-1", { status: "expired", pspReference: "ch_1", pspReferences: ["ch_1"] }));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const event = { pspReference: "ch_1", status: "succeeded" as const, paymentMethod: "wave" as const };
+    expect(await processPaymentEvent("bictorys", event)).toBe("paid_after_expiry");
+    expect(statusOf("order-1")).toBe("expired");
+    expect(await repositories.orders.getById("order-1")).toMatchObject({
+      paidAfterExpiry: true,
+      pspProvider: "bictorys",
+      paymentMethod: "wave",
+    });
+  });
+
+  it("reports events without any matching order", async () => {
+    const outcome = await processPaymentEvent("bictorys", {
+      pspReference: "ch_unknown",
+      status: "succeeded",
+      orderId: "missing",
+    });
+    expect(outcome).toBe("unmatched");
+    expect(firestore.list("orders")).toHaveLength(0);
+  });
+
+  it("ignores charges of another provider", async () => {
+    addOrder(repositories, makeOrder("order-1", { pspProvider: "mock", pspReference: "ch_1", pspReferences: ["ch_1"] }));
+
+    expect(await processPaymentEvent("bictorys", { pspReference: "ch_1", status: "succeeded" })).toBe("ignored");
+    expect(statusOf("order-1")).toBe("reserved");
+  });
+});
@@ -0,0 +1,103 @@
+import type { Order } from "@shared/types";
+import { getRepositories } from "../repositories";
+import { commitReservation, ReservationError } from "../reservations";
+import { notifyPaymentReceived } from "../whatsapp/service";
+import type { PaymentWebhookEvent } from "./types";
+
+/**
+ * Applies a verified PSP event to its order
+ * Orders are matched on any of their pspReferences (recorded by
+ * /api/pay/:token/charge), then on the order id echoed by the PSP, which also
+ * covers a webhook arriving before the charge was recorded. "unmatched" is
+ * answered with an error so the PSP retries later. The amount paid must match
+ * the order's total; an event matched on the order id alone must state it.
+ * commitReservation is idempotent, so a replayed webhook changes nothing
+ * and does not send a second confirmation. A charge that succeeds once the order
+ * expired or was cancelled is kept on the order (paidAfterExpiry) for the vendor.
+ */
+
+export type PaymentEventOutcome =
+  | "confirmed"
+  | "duplicate"
+  | "ignored"
+  | "unmatched"
+  | "rejected"
+  | "paid_after_expiry";
+
+async function findOrder(event: PaymentWebhookEvent): Promise<Order | null> {
+  const { orders } = getRepositories();
+  const order = await orders.findByPspReference(event.pspReference);
+  if (order || !event.orderId) return order;
+  return orders.getById(event.orderId);
+}
+
+// Charges recorded on the order were created for its total (POST /api/pay/:token/charge)
+function isAmountValid(order: Order, event: PaymentWebhookEvent): boolean {
+  if (event.currency !== undefined && event.currency !== "XOF") return false;
+  if (event.amount === undefined) {
+    return order.pspReferences.includes(event.pspReference) || order.pspReference === event.pspReference;
+  }
+  return event.amount === order.totalAmount;
+}
+
+export async function processPaymentEvent(
+  providerName: string,
+  event: PaymentWebhookEvent
+): Promise<PaymentEventOutcome> {
+  if (event.status !== "succeeded") {
+    console.log(`[Payments] ${providerName} charge ${event.pspReference} is ${event.status}`);
+    return "ignored";
+  }
+
+  const order = await findOrder(event);
+  if (!order) {
+    console.warn(`[Payments] No order for ${providerName} charge ${event.pspReference}`);
+    return "unmatched";
+  }
+
+  if (order.pspProvider && order.pspProvider !== providerName) {
+    console.warn(`[Payments] Charge ${event.pspReference} belongs to another provider`);
+    return "ignored";
+  }
+
+  if (!isAmountValid(order, event)) {
+    console.error(
+      `[Payments] Charge ${event.pspReference} of ${event.amount ?? "?"} ${event.currency ?? ""} ` +
+        `does not match order ${order.id} (${order.totalAmount} XOF), not confirmed`
+    );
+    return "rejected";
+  }
+
+  let changed: boolean;
+  try {
+    changed = await commitReservation(order.id, { type: "psp", id: providerName }, {
+      paymentMethod: event.paymentMethod,
+      pspReference: event.pspReference,
+    });
+  } catch (error) {
+    if (error instanceof ReservationError && error.code === "invalid_state") {
+      // Shown on the vendor's orders page: needs a manual refund or re-reservation
+      console.error(`[Payments] Order ${order.id} paid via ${providerName} after it was ${order.status}`);
+      await getRepositories().orders.update(order.id, {
+        paidAfterExpiry: true,
+        pspProvider: providerName,
+        pspReference: event.pspReference,
+        ...(event.paymentMethod && { paymentMethod: event.paymentMethod }),
+      });
+      return "paid_after_expiry";
+    }
+    if (error instanceof ReservationError) {
+      console.error(`[Payments] Order ${order.id} not confirmed: ${error.message}`);
+      return "ignored";
+    }
+    throw error;
+  }
+
+  if (!changed) return "duplicate";
+
+  console.log(`[Payments] Order ${order.id} paid via ${providerName}`);
+  notifyPaymentReceived(order.id).catch((error) => {
+    console.error(`[WhatsApp] Payment confirmation for ${order.id} failed:`, error);
+  });
+  return "confirmed";
+}
@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// Providers are cached per module instance
+async function load(): Promise<typeof import("./index")> {
+  vi.resetModules();
+  return import("./index");
+}
+
+beforeEach(() => {
+  vi.stubEnv("NODE_ENV", "development");
+  vi.stubEnv("PAYMENT_PROVIDER", "");
+  vi.stubEnv("MOCK_PAYMENT_SECRET", "");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("getPaymentProvider", () => {
+  it("uses Bictorys unless the mock is asked for", async () => {
+    const { getPaymentProvider, getPaymentProviderByName } = await load();
+    expect(getPaymentProvider().name).toBe("bictorys");
+    expect(getPaymentProviderByName("mock")).toBeNull();
+  });
+
+  it("uses the mock when asked for with a secret", async () => {
+    vi.stubEnv("PAYMENT_PROVIDER", "mock");
+    vi.stubEnv("MOCK_PAYMENT_SECRET", "secret");
+    const { getPaymentProvider, getPaymentProviderByName } = await load();
+    expect(getPaymentProvider().name).toBe("mock");
+    expect(getPaymentProviderByName("mock")).toBe(getPaymentProvider());
+  });
+
+  it("refuses the mock without a secret", async () => {
+    vi.stubEnv("PAYMENT_PROVIDER", "mock");
+    const { getPaymentProvider } = await load();
+    expect(() => getPaymentProvider()).toThrow("MOCK_PAYMENT_SECRET");
+  });
+
+  it("refuses the mock in production", async () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("PAYMENT_PROVIDER", "mock");
+    vi.stubEnv("MOCK_PAYMENT_SECRET", "secret");
+    const { getPaymentProvider } = await load();
+    expect(() => getPaymentProvider()).toThrow("production");
+  });
+});
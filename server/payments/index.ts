@@ -0,0 +1,54 @@
+import { BictorysProvider } from "./bictorys";
+import { MockPaymentProvider } from "./mock";
+import type { PaymentProvider } from "./types";
+
+/**
+ * Active payment provider, chosen with PAYMENT_PROVIDER ("bictorys" | "mock").
+ * Defaults to Bictorys. The mock settles orders without any payment, so it
+ * must be asked for explicitly and is refused when NODE_ENV=production.
+ */
+
+export * from "./types";
+export { processPaymentEvent } from "./events";
+export { MockPaymentProvider } from "./mock";
+
+const providers = new Map<string, PaymentProvider>();
+
+function createProvider(name: string): PaymentProvider {
+  switch (name) {
+    case "bictorys":
+      return new BictorysProvider(
+        process.env.BICTORYS_PUBLIC_KEY || "",
+        process.env.BICTORYS_SECRET_KEY || "",
+        process.env.BICTORYS_WEBHOOK_SECRET || "",
+        process.env.BICTORYS_API_URL
+      );
+    case "mock": {
+      if (process.env.NODE_ENV === "production") {
+        throw new Error("The mock payment provider cannot run in production");
+      }
+      const secret = process.env.MOCK_PAYMENT_SECRET;
+      if (!secret) throw new Error("MOCK_PAYMENT_SECRET is required by the mock payment provider");
+      return new MockPaymentProvider(secret);
+    }
+    default:
+      throw new Error(`Unknown payment provider: ${name}`);
+  }
+}
+
+function activeProviderName(): string {
+  return process.env.PAYMENT_PROVIDER || "bictorys";
+}
+
+export function getPaymentProviderByName(name: string): PaymentProvider | null {
+  if (name !== "bictorys" && name !== "mock") return null;
+  // Mock webhooks are only accepted while the mock is the active provider
+  if (name === "mock" && activeProviderName() !== "mock") return null;
+  if (!providers.has(name)) providers.set(name, createProvider(name));
+  return providers.get(name)!;
+}
+
+export function getPaymentProvider(): PaymentProvider {
+  const name = activeProviderName();
+  return getPaymentProviderByName(name) || createProvider(name);
+}
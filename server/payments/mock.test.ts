@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { MockPaymentProvider } from "./mock";
+import { PaymentProviderError } from "./types";
+
+const provider = new MockPaymentProvider("secret");
+
+function deliver(body: string, signature = provider.sign(Buffer.from(body))) {
+  return () => provider.handleWebhook({ "x-mock-signature": signature }, Buffer.from(body));
+}
+
+function statusOf(run: () => unknown): number | undefined {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof PaymentProviderError) return error.status;
+    throw error;
+  }
+  return undefined;
+}
+
+describe("MockPaymentProvider.handleWebhook", () => {
+  it("decodes a signed event", () => {
+    const body = JSON.stringify({ pspReference: "mock_1", status: "succeeded", orderId: "order-1", amount: 10000 });
+    expect(deliver(body)()).toEqual({ pspReference: "mock_1", status: "succeeded", orderId: "order-1", amount: 10000 });
+  });
+
+  it("refuses a bad signature", () => {
+    const body = JSON.stringify({ pspReference: "mock_1", status: "succeeded" });
+    expect(statusOf(deliver(body, "00"))).toBe(401);
+  });
+
+  it("refuses payloads that are not a payment event", () => {
+    expect(statusOf(deliver("not json"))).toBe(400);
+    expect(statusOf(deliver(JSON.stringify({ pspReference: "mock_1", status: "paid" })))).toBe(400);
+    expect(statusOf(deliver(JSON.stringify({ status: "succeeded" })))).toBe(400);
+  });
+});
@@ -0,0 +1,99 @@
+import crypto from "crypto";
+import { z } from "zod";
+import { paymentMethodSchema } from "@shared/types";
+import {
+  PaymentProviderError,
+  type ChargeRequest,
+  type ChargeResult,
+  type ChargeStatus,
+  type PaymentProvider,
+  type PaymentWebhookEvent,
+} from "./types";
+import { APP_HOST } from "../config";
+
+/**
+ * Local fake PSP for development and offline testing, enabled with
+ * PAYMENT_PROVIDER=mock and MOCK_PAYMENT_SECRET (never in production).
+ * Charges live in memory. The buyer is redirected to
+ * GET /api/payments/mock/checkout/:reference, which settles the charge
+ * and sends them back to the pay page.
+ */
+
+// Body of the signed webhook (same fields as PaymentWebhookEvent)
+const webhookSchema = z.object({
+  pspReference: z.string().min(1),
+  status: z.enum(["pending", "succeeded", "failed", "refunded"]),
+  orderId: z.string().optional(),
+  paymentMethod: paymentMethodSchema.optional(),
+  amount: z.number().nonnegative().optional(),
+  currency: z.string().optional(),
+});
+
+interface MockCharge {
+  request: ChargeRequest;
+  status: ChargeStatus;
+}
+
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = "mock";
+  private charges = new Map<string, MockCharge>();
+
+  constructor(private webhookSecret: string) {}
+
+  async createCharge(request: ChargeRequest): Promise<ChargeResult> {
+    const pspReference = `mock_${crypto.randomBytes(8).toString("hex")}`;
+    this.charges.set(pspReference, { request, status: "pending" });
+
+    return {
+      pspReference,
+      status: "pending",
+      redirectUrl: `${APP_HOST}/api/payments/mock/checkout/${pspReference}`,
+      instructions: "Paiement de test (aucun débit réel)",
+    };
+  }
+
+  async getChargeStatus(pspReference: string): Promise<ChargeStatus> {
+    const charge = this.charges.get(pspReference);
+    if (!charge) throw new PaymentProviderError(`Unknown mock charge ${pspReference}`, 404);
+    return charge.status;
+  }
+
+  // Settles a charge as the fake checkout page would
+  settle(pspReference: string, status: Extract<ChargeStatus, "succeeded" | "failed">): ChargeRequest {
+    const charge = this.charges.get(pspReference);
+    if (!charge) throw new PaymentProviderError(`Unknown mock charge ${pspReference}`, 404);
+    charge.status = status;
+    return charge.request;
+  }
+
+  sign(rawBody: Buffer): string {
+    return crypto.createHmac("sha256", this.webhookSecret).update(rawBody).digest("hex");
+  }
+
+  handleWebhook(headers: Record<string, string | string[] | undefined>, rawBody: Buffer): PaymentWebhookEvent {
+    const header = headers["x-mock-signature"];
+    const received = Buffer.from((Array.isArray(header) ? header[0] : header) || "", "hex");
+    const expected = Buffer.from(this.sign(rawBody), "hex");
+    if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+      throw new PaymentProviderError("Invalid mock webhook signature", 401);
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody.toString("utf8"));
+    } catch {
+      throw new PaymentProviderError("Invalid mock webhook payload", 400);
+    }
+    const parsed = webhookSchema.safeParse(payload);
+    if (!parsed.success) {
+      throw new PaymentProviderError("Invalid mock webhook payload", 400);
+    }
+    return parsed.data;
+  }
+
+  async refund(pspReference: string): Promise<void> {
+    const charge = this.charges.get(pspReference);
+    if (!charge) throw new PaymentProviderError(`Unknown mock charge ${pspReference}`, 404);
+    charge.status = "refunded";
+  }
+}
@@ -0,0 +1,57 @@
+import type { PaymentMethod } from "@shared/types";
+
+/**
+ * Payment service provider (PSP) abstraction
+ * LivePay never holds funds: charges are created at the PSP (UEMOA licensed)
+ * and confirmed through its webhook.
+ */
+
+export type ChargeStatus = "pending" | "succeeded" | "failed" | "refunded";
+
+export interface ChargeRequest {
+  orderId: string;
+  amount: number;
+  currency: "XOF";
+  paymentMethod: Exclude<PaymentMethod, "cash">;
+  customerPhone: string;
+  customerName?: string;
+  description: string;
+  // Where the PSP sends the buyer back after checkout
+  successUrl: string;
+  errorUrl: string;
+}
+
+export interface ChargeResult {
+  pspReference: string;
+  status: ChargeStatus;
+  // Hosted checkout / wallet deep link the buyer is sent to
+  redirectUrl?: string;
+  ussdCode?: string;
+  instructions?: string;
+}
+
+export interface PaymentWebhookEvent {
+  pspReference: string;
+  status: ChargeStatus;
+  orderId?: string;
+  paymentMethod?: PaymentMethod;
+  // Amount charged, when the PSP states it; checked against Order.totalAmount
+  amount?: number;
+  currency?: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  createCharge(request: ChargeRequest): Promise<ChargeResult>;
+  getChargeStatus(pspReference: string): Promise<ChargeStatus>;
+  /** Verifies the webhook signature and decodes it. Throws PaymentProviderError when invalid. */
+  handleWebhook(headers: Record<string, string | string[] | undefined>, rawBody: Buffer): PaymentWebhookEvent;
+  refund(pspReference: string, amount?: number): Promise<void>;
+}
+
+export class PaymentProviderError extends Error {
+  constructor(message: string, public status = 502) {
+    super(message);
+    this.name = "PaymentProviderError";
+  }
+}
@@ -0,0 +1,259 @@
+import { db, FieldPath, FieldValue } from "../firebase";
+import type {
+  Conversation,
+  LiveSession,
+  Order,
+  Product,
+  PublicVendorProfile,
+  UpdateVendorSecretsInput,
+  VendorConfig,
+  VendorSecretsStatus,
+} from "@shared/types";
+import {
+  conversationConverter,
+  liveSessionConverter,
+  orderConverter,
+  phoneNumberIdConverter,
+  productConverter,
+  publicVendorProfileConverter,
+  readDocuments,
+  toFirestoreUpdate,
+  vendorConfigConverter,
+  vendorSecretsConverter,
+} from "@shared/converters";
+import { decryptSecret, encryptSecret, hashSecret } from "../secrets";
+import {
+  conversationId,
+  type ConversationRepository,
+  type ConversationUpdate,
+  type LiveSessionRepository,
+  type OrderRepository,
+  type OrderUpdate,
+  type PhoneNumberIdClaim,
+  type ProductRepository,
+  type PspCharge,
+  type PublicVendorProfileRepository,
+  type Repositories,
+  type VendorConfigRepository,
+  type VendorSecretsRepository,
+} from "./types";
+
+/**
+ * Firestore repositories (admin SDK)
+ * Documents go through the shared converters, so reads come back as validated
+ * app models and writes are checked against the same schemas.
+ */
+
+const HOLDING_STATUSES: Order["status"][] = ["pending", "reserved"];
+
+export class FirestoreVendorConfigRepository implements VendorConfigRepository {
+  private collection = db.collection("vendorConfigs").withConverter(vendorConfigConverter);
+  private phoneNumberIds = db.collection("phoneNumberIds").withConverter(phoneNumberIdConverter);
+
+  async getByVendorId(vendorId: string): Promise<VendorConfig | null> {
+    const snap = await this.collection.where("vendorId", "==", vendorId).limit(1).get();
+    return snap.empty ? null : snap.docs[0].data();
+  }
+
+  async getByPhoneNumberId(phoneNumberId: string): Promise<VendorConfig | null> {
+    const mapping = (await this.phoneNumberIds.doc(phoneNumberId).get()).data();
+    return mapping ? this.getByVendorId(mapping.vendorId) : null;
+  }
+
+  async setPhoneNumberId(vendorId: string, phoneNumberId: string | null): Promise<PhoneNumberIdClaim> {
+    return db.runTransaction(async (tx) => {
+      const configSnap = await tx.get(this.collection.where("vendorId", "==", vendorId).limit(1));
+      if (configSnap.empty) return "no_config";
+      const config = configSnap.docs[0];
+      const previous = config.data().whatsappPhoneNumberId;
+
+      const claimedRef = phoneNumberId ? this.phoneNumberIds.doc(phoneNumberId) : null;
+      const claimed = claimedRef ? (await tx.get(claimedRef)).data() : undefined;
+      if (claimed && claimed.vendorId !== vendorId) return "taken";
+      const previousRef = previous && previous !== phoneNumberId ? this.phoneNumberIds.doc(previous) : null;
+      const previousMapping = previousRef ? (await tx.get(previousRef)).data() : undefined;
+
+      if (previousRef && previousMapping?.vendorId === vendorId) tx.delete(previousRef);
+      if (claimedRef && !claimed) tx.set(claimedRef, { id: phoneNumberId!, vendorId, createdAt: new Date() });
+      tx.update(
+        config.ref,
+        toFirestoreUpdate(vendorConfigConverter, { whatsappPhoneNumberId: phoneNumberId, updatedAt: new Date() })
+      );
+      return "claimed";
+    });
+  }
+}
+
+export class FirestoreVendorSecretsRepository implements VendorSecretsRepository {
+  private collection = db.collection("vendorSecrets").withConverter(vendorSecretsConverter);
+
+  async getWhatsAppAccessToken(vendorId: string): Promise<string | null> {
+    const encrypted = (await this.collection.doc(vendorId).get()).data()?.whatsappAccessTokenEncrypted;
+    return encrypted ? decryptSecret(encrypted) : null;
+  }
+
+  async hasVerifyToken(token: string): Promise<boolean> {
+    const snap = await this.collection.where("whatsappVerifyTokenHash", "==", hashSecret(token)).limit(1).get();
+    return !snap.empty;
+  }
+
+  async getStatus(vendorId: string): Promise<VendorSecretsStatus> {
+    const secrets = (await this.collection.doc(vendorId).get()).data();
+    return {
+      whatsappAccessToken: !!secrets?.whatsappAccessTokenEncrypted,
+      whatsappVerifyToken: !!secrets?.whatsappVerifyTokenHash,
+    };
+  }
+
+  async update(vendorId: string, data: UpdateVendorSecretsInput): Promise<void> {
+    await this.collection.doc(vendorId).set(
+      {
+        id: vendorId,
+        vendorId,
+        ...(data.whatsappAccessToken && { whatsappAccessTokenEncrypted: encryptSecret(data.whatsappAccessToken) }),
+        ...(data.whatsappVerifyToken && { whatsappVerifyTokenHash: hashSecret(data.whatsappVerifyToken) }),
+        updatedAt: new Date(),
+      },
+      { merge: true }
+    );
+  }
+}
+
+export class FirestorePublicVendorProfileRepository implements PublicVendorProfileRepository {
+  private collection = db.collection("publicVendorProfiles").withConverter(publicVendorProfileConverter);
+
+  async getByVendorId(vendorId: string): Promise<PublicVendorProfile | null> {
+    const snap = await this.collection.doc(vendorId).get();
+    return snap.data() ?? null;
+  }
+}
+
+export class FirestoreProductRepository implements ProductRepository {
+  private collection = db.collection("products").withConverter(productConverter);
+
+  async getById(productId: string): Promise<Product | null> {
+    const snap = await this.collection.doc(productId).get();
+    return snap.data() ?? null;
+  }
+
+  async findActiveByKeyword(vendorId: string, keyword: string): Promise<Product | null> {
+    const snap = await this.collection
+      .where("vendorId", "==", vendorId)
+      .where("keyword", "==", keyword)
+      .where("active", "==", true)
+      .limit(1)
+      .get();
+    return snap.empty ? null : snap.docs[0].data();
+  }
+
+  async listActive(vendorId: string, limit: number): Promise<Product[]> {
+    const snap = await this.collection
+      .where("vendorId", "==", vendorId)
+      .where("active", "==", true)
+      .limit(limit)
+      .get();
+    return readDocuments(snap.docs);
+  }
+}
+
+export class FirestoreOrderRepository implements OrderRepository {
+  private collection = db.collection("orders").withConverter(orderConverter);
+
+  async getById(orderId: string): Promise<Order | null> {
+    const snap = await this.collection.doc(orderId).get();
+    return snap.data() ?? null;
+  }
+
+  async findByPspReference(pspReference: string): Promise<Order | null> {
+    const snap = await this.collection.where("pspReferences", "array-contains", pspReference).limit(1).get();
+    if (!snap.empty) return snap.docs[0].data();
+    // Orders charged before pspReferences existed
+    const legacy = await this.collection.where("pspReference", "==", pspReference).limit(1).get();
+    return legacy.empty ? null : legacy.docs[0].data();
+  }
+
+  async findByPaymentToken(paymentToken: string): Promise<Order | null> {
+    const snap = await this.collection.where("paymentToken", "==", paymentToken).limit(1).get();
+    return snap.empty ? null : snap.docs[0].data();
+  }
+
+  async listHoldingExpiredAt(date: Date, limit: number, after?: Order): Promise<Order[]> {
+    let query = this.collection
+      .where("status", "in", HOLDING_STATUSES)
+      .where("reservedUntil", "<=", date)
+      .orderBy("reservedUntil")
+      .orderBy(FieldPath.documentId());
+    if (after) query = query.startAfter(after.reservedUntil, after.id);
+    const snap = await query.limit(limit).get();
+    return readDocuments(snap.docs);
+  }
+
+  async listHoldingWithoutDeadline(limit: number, after?: Order): Promise<Order[]> {
+    let query = this.collection
+      .where("status", "in", HOLDING_STATUSES)
+      .where("reservedUntil", "==", null)
+      .orderBy("createdAt")
+      .orderBy(FieldPath.documentId());
+    if (after) query = query.startAfter(after.createdAt, after.id);
+    const snap = await query.limit(limit).get();
+    return readDocuments(snap.docs);
+  }
+
+  async recordCharge(orderId: string, charge: PspCharge): Promise<void> {
+    await this.collection.doc(orderId).update({
+      paymentMethod: charge.paymentMethod,
+      pspProvider: charge.provider,
+      pspReference: charge.pspReference,
+      pspReferences: FieldValue.arrayUnion(charge.pspReference),
+      updatedAt: new Date(),
+    });
+  }
+
+  async update(orderId: string, data: OrderUpdate): Promise<void> {
+    await this.collection.doc(orderId).update(toFirestoreUpdate(orderConverter, data));
+  }
+}
+
+export class FirestoreLiveSessionRepository implements LiveSessionRepository {
+  private collection = db.collection("liveSessions").withConverter(liveSessionConverter);
+
+  async getActive(vendorId: string): Promise<LiveSession | null> {
+    const snap = await this.collection
+      .where("vendorId", "==", vendorId)
+      .where("active", "==", true)
+      .limit(1)
+      .get();
+    return snap.empty ? null : snap.docs[0].data();
+  }
+}
+
+export class FirestoreConversationRepository implements ConversationRepository {
+  private collection = db.collection("conversations").withConverter(conversationConverter);
+
+  async get(vendorId: string, clientPhone: string): Promise<Conversation | null> {
+    const snap = await this.collection.doc(conversationId(vendorId, clientPhone)).get();
+    return snap.data() ?? null;
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    await this.collection.doc(conversation.id).set(conversation);
+  }
+
+  async update(vendorId: string, clientPhone: string, data: ConversationUpdate): Promise<void> {
+    await this.collection
+      .doc(conversationId(vendorId, clientPhone))
+      .update(toFirestoreUpdate(conversationConverter, data));
+  }
+}
+
+export function createFirestoreRepositories(): Repositories {
+  return {
+    vendorConfigs: new FirestoreVendorConfigRepository(),
+    vendorSecrets: new FirestoreVendorSecretsRepository(),
+    publicVendorProfiles: new FirestorePublicVendorProfileRepository(),
+    products: new FirestoreProductRepository(),
+    orders: new FirestoreOrderRepository(),
+    liveSessions: new FirestoreLiveSessionRepository(),
+    conversations: new FirestoreConversationRepository(),
+  };
+}
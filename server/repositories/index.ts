@@ -0,0 +1,22 @@
+import { createFirestoreRepositories } from "./firestore";
+import type { Repositories } from "./types";
+
+/**
+ * Repositories used by the server, Firestore unless replaced with
+ * setRepositories() (e.g. createMemoryRepositories() in unit tests).
+ */
+
+export * from "./types";
+export { createFirestoreRepositories } from "./firestore";
+export { createMemoryRepositories, type MemoryRepositories } from "./memory";
+
+let current: Repositories | null = null;
+
+export function getRepositories(): Repositories {
+  if (!current) current = createFirestoreRepositories();
+  return current;
+}
+
+export function setRepositories(repositories: Repositories): void {
+  current = repositories;
+}
@@ -0,0 +1,258 @@
+import type {
+  Conversation,
+  LiveSession,
+  Order,
+  Product,
+  PublicVendorProfile,
+  UpdateVendorSecretsInput,
+  VendorConfig,
+  VendorSecretsStatus,
+} from "@shared/types";
+import {
+  conversationId,
+  type ConversationRepository,
+  type ConversationUpdate,
+  type LiveSessionRepository,
+  type OrderRepository,
+  type OrderUpdate,
+  type PhoneNumberIdClaim,
+  type ProductRepository,
+  type PspCharge,
+  type PublicVendorProfileRepository,
+  type Repositories,
+  type VendorConfigRepository,
+  type VendorSecretsRepository,
+} from "./types";
+
+/**
+ * In-memory repositories for unit tests and local runs without Firestore
+ * Same query semantics as firestore.ts; results are copies so callers
+ * cannot mutate the stored documents.
+ */
+
+function copy<T>(value: T): T {
+  return structuredClone(value);
+}
+
+// Sorts by `compare` and returns the page after `after`, like orderBy() + startAfter()
+function page<T>(items: T[], compare: (a: T, b: T) => number, limit: number, after?: T): T[] {
+  return items
+    .filter((item) => !after || compare(item, after) > 0)
+    .sort(compare)
+    .slice(0, limit);
+}
+
+function byDeadline(a: Order, b: Order): number {
+  return (a.reservedUntil?.getTime() ?? 0) - (b.reservedUntil?.getTime() ?? 0) || a.id.localeCompare(b.id);
+}
+
+function byCreation(a: Order, b: Order): number {
+  return a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id);
+}
+
+export class MemoryVendorConfigRepository implements VendorConfigRepository {
+  constructor(
+    public readonly items = new Map<string, VendorConfig>(),
+    // phoneNumberId → vendorId
+    public readonly phoneNumberIds = new Map<string, string>()
+  ) {}
+
+  private find(predicate: (config: VendorConfig) => boolean): VendorConfig | null {
+    const config = Array.from(this.items.values()).find(predicate);
+    return config ? copy(config) : null;
+  }
+
+  async getByVendorId(vendorId: string): Promise<VendorConfig | null> {
+    return this.find((c) => c.vendorId === vendorId);
+  }
+
+  async getByPhoneNumberId(phoneNumberId: string): Promise<VendorConfig | null> {
+    const vendorId = this.phoneNumberIds.get(phoneNumberId);
+    return vendorId ? this.getByVendorId(vendorId) : null;
+  }
+
+  async setPhoneNumberId(vendorId: string, phoneNumberId: string | null): Promise<PhoneNumberIdClaim> {
+    const config = Array.from(this.items.values()).find((c) => c.vendorId === vendorId);
+    if (!config) return "no_config";
+    const holder = phoneNumberId && this.phoneNumberIds.get(phoneNumberId);
+    if (holder && holder !== vendorId) return "taken";
+
+    const previous = config.whatsappPhoneNumberId;
+    if (previous && previous !== phoneNumberId && this.phoneNumberIds.get(previous) === vendorId) {
+      this.phoneNumberIds.delete(previous);
+    }
+    if (phoneNumberId) this.phoneNumberIds.set(phoneNumberId, vendorId);
+    this.items.set(config.id, { ...config, whatsappPhoneNumberId: phoneNumberId ?? undefined, updatedAt: new Date() });
+    return "claimed";
+  }
+}
+
+// Kept in clear: nothing here is persisted
+export class MemoryVendorSecretsRepository implements VendorSecretsRepository {
+  constructor(public readonly items = new Map<string, UpdateVendorSecretsInput>()) {}
+
+  async getWhatsAppAccessToken(vendorId: string): Promise<string | null> {
+    return this.items.get(vendorId)?.whatsappAccessToken ?? null;
+  }
+
+  async hasVerifyToken(token: string): Promise<boolean> {
+    return Array.from(this.items.values()).some((s) => s.whatsappVerifyToken === token);
+  }
+
+  async getStatus(vendorId: string): Promise<VendorSecretsStatus> {
+    const secrets = this.items.get(vendorId);
+    return {
+      whatsappAccessToken: !!secrets?.whatsappAccessToken,
+      whatsappVerifyToken: !!secrets?.whatsappVerifyToken,
+    };
+  }
+
+  async update(vendorId: string, data: UpdateVendorSecretsInput): Promise<void> {
+    const current = this.items.get(vendorId);
+    this.items.set(vendorId, {
+      ...current,
+      ...(data.whatsappAccessToken && { whatsappAccessToken: data.whatsappAccessToken }),
+      ...(data.whatsappVerifyToken && { whatsappVerifyToken: data.whatsappVerifyToken }),
+    });
+  }
+}
+
+export class MemoryPublicVendorProfileRepository implements PublicVendorProfileRepository {
+  constructor(public readonly items = new Map<string, PublicVendorProfile>()) {}
+
+  async getByVendorId(vendorId: string): Promise<PublicVendorProfile | null> {
+    const profile = this.items.get(vendorId);
+    return profile ? copy(profile) : null;
+  }
+}
+
+export class MemoryProductRepository implements ProductRepository {
+  constructor(public readonly items = new Map<string, Product>()) {}
+
+  async getById(productId: string): Promise<Product | null> {
+    const product = this.items.get(productId);
+    return product ? copy(product) : null;
+  }
+
+  async findActiveByKeyword(vendorId: string, keyword: string): Promise<Product | null> {
+    const product = Array.from(this.items.values()).find(
+      (p) => p.vendorId === vendorId && p.keyword === keyword && p.active
+    );
+    return product ? copy(product) : null;
+  }
+
+  async listActive(vendorId: string, limit: number): Promise<Product[]> {
+    return Array.from(this.items.values())
+      .filter((p) => p.vendorId === vendorId && p.active)
+      .slice(0, limit)
+      .map(copy);
+  }
+}
+
+export class MemoryOrderRepository implements OrderRepository {
+  constructor(public readonly items = new Map<string, Order>()) {}
+
+  private holding(): Order[] {
+    return Array.from(this.items.values()).filter((o) => o.status === "pending" || o.status === "reserved");
+  }
+
+  async getById(orderId: string): Promise<Order | null> {
+    const order = this.items.get(orderId);
+    return order ? copy(order) : null;
+  }
+
+  async findByPspReference(pspReference: string): Promise<Order | null> {
+    const order = Array.from(this.items.values()).find(
+      (o) => o.pspReferences.includes(pspReference) || o.pspReference === pspReference
+    );
+    return order ? copy(order) : null;
+  }
+
+  async findByPaymentToken(paymentToken: string): Promise<Order | null> {
+    const order = Array.from(this.items.values()).find((o) => o.paymentToken === paymentToken);
+    return order ? copy(order) : null;
+  }
+
+  async listHoldingExpiredAt(date: Date, limit: number, after?: Order): Promise<Order[]> {
+    const orders = this.holding().filter((o) => o.reservedUntil && o.reservedUntil.getTime() <= date.getTime());
+    return page(orders, byDeadline, limit, after).map(copy);
+  }
+
+  async listHoldingWithoutDeadline(limit: number, after?: Order): Promise<Order[]> {
+    const orders = this.holding().filter((o) => !o.reservedUntil);
+    return page(orders, byCreation, limit, after).map(copy);
+  }
+
+  async recordCharge(orderId: string, charge: PspCharge): Promise<void> {
+    const order = this.items.get(orderId);
+    if (!order) throw new Error(`Order ${orderId} not found`);
+    this.items.set(orderId, {
+      ...order,
+      paymentMethod: charge.paymentMethod,
+      pspProvider: charge.provider,
+      pspReference: charge.pspReference,
+      pspReferences: order.pspReferences.includes(charge.pspReference)
+        ? order.pspReferences
+        : [...order.pspReferences, charge.pspReference],
+      updatedAt: new Date(),
+    });
+  }
+
+  async update(orderId: string, data: OrderUpdate): Promise<void> {
+    const order = this.items.get(orderId);
+    if (!order) throw new Error(`Order ${orderId} not found`);
+    this.items.set(orderId, { ...order, ...copy(data) });
+  }
+}
+
+export class MemoryLiveSessionRepository implements LiveSessionRepository {
+  constructor(public readonly items = new Map<string, LiveSession>()) {}
+
+  async getActive(vendorId: string): Promise<LiveSession | null> {
+    const session = Array.from(this.items.values()).find((s) => s.vendorId === vendorId && s.active);
+    return session ? copy(session) : null;
+  }
+}
+
+export class MemoryConversationRepository implements ConversationRepository {
+  constructor(public readonly items = new Map<string, Conversation>()) {}
+
+  async get(vendorId: string, clientPhone: string): Promise<Conversation | null> {
+    const conversation = this.items.get(conversationId(vendorId, clientPhone));
+    return conversation ? copy(conversation) : null;
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    this.items.set(conversation.id, copy(conversation));
+  }
+
+  async update(vendorId: string, clientPhone: string, data: ConversationUpdate): Promise<void> {
+    const id = conversationId(vendorId, clientPhone);
+    const conversation = this.items.get(id);
+    if (!conversation) throw new Error(`Conversation ${id} not found`);
+    this.items.set(id, { ...conversation, ...copy(data) });
+  }
+}
+
+// Keeps the concrete classes so tests can seed their `items`
+export interface MemoryRepositories extends Repositories {
+  vendorConfigs: MemoryVendorConfigRepository;
+  vendorSecrets: MemoryVendorSecretsRepository;
+  publicVendorProfiles: MemoryPublicVendorProfileRepository;
+  products: MemoryProductRepository;
+  orders: MemoryOrderRepository;
+  liveSessions: MemoryLiveSessionRepository;
+  conversations: MemoryConversationRepository;
+}
+
+export function createMemoryRepositories(): MemoryRepositories {
+  return {
+    vendorConfigs: new MemoryVendorConfigRepository(),
+    vendorSecrets: new MemoryVendorSecretsRepository(),
+    publicVendorProfiles: new MemoryPublicVendorProfileRepository(),
+    products: new MemoryProductRepository(),
+    orders: new MemoryOrderRepository(),
+    liveSessions: new MemoryLiveSessionRepository(),
+    conversations: new MemoryConversationRepository(),
+  };
+}
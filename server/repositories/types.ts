@@ -0,0 +1,101 @@
+import type {
+  Conversation,
+  LiveSession,
+  Order,
+  PaymentMethod,
+  Product,
+  PublicVendorProfile,
+  UpdateVendorSecretsInput,
+  VendorConfig,
+  VendorSecretsStatus,
+} from "@shared/types";
+
+/**
+ * Data access used by the chatbot, the payment webhooks and the background jobs
+ * Implemented on Firestore (firestore.ts) and in memory (memory.ts) so business
+ * logic can run without the emulator. Stock moves stay in server/reservations.ts,
+ * which needs Firestore transactions.
+ */
+
+export type PhoneNumberIdClaim = "claimed" | "taken" | "no_config";
+
+export interface VendorConfigRepository {
+  getByVendorId(vendorId: string): Promise<VendorConfig | null>;
+  // WhatsApp webhooks are routed through the phoneNumberIds mapping
+  getByPhoneNumberId(phoneNumberId: string): Promise<VendorConfig | null>;
+  // Connects the number to the vendor unless another vendor holds it, and
+  // frees the vendor's previous number; null only disconnects
+  setPhoneNumberId(vendorId: string, phoneNumberId: string | null): Promise<PhoneNumberIdClaim>;
+}
+
+// Plain values in and out; encryption at rest is the implementation's business
+export interface VendorSecretsRepository {
+  getWhatsAppAccessToken(vendorId: string): Promise<string | null>;
+  hasVerifyToken(token: string): Promise<boolean>;
+  getStatus(vendorId: string): Promise<VendorSecretsStatus>;
+  // Fields left out are kept
+  update(vendorId: string, data: UpdateVendorSecretsInput): Promise<void>;
+}
+
+// What buyers may see of a vendor (pay page), synced by the vendor's settings
+export interface PublicVendorProfileRepository {
+  getByVendorId(vendorId: string): Promise<PublicVendorProfile | null>;
+}
+
+export interface ProductRepository {
+  getById(productId: string): Promise<Product | null>;
+  findActiveByKeyword(vendorId: string, keyword: string): Promise<Product | null>;
+  listActive(vendorId: string, limit: number): Promise<Product[]>;
+}
+
+// Status is left out on purpose: it only changes through server/reservations.ts
+export type OrderUpdate = Partial<Omit<Order, "id" | "vendorId" | "status" | "createdAt">>;
+
+export interface PspCharge {
+  provider: string;
+  pspReference: string;
+  paymentMethod: PaymentMethod;
+}
+
+export interface OrderRepository {
+  getById(orderId: string): Promise<Order | null>;
+  // Matches any charge recorded on the order, not only the latest
+  findByPspReference(pspReference: string): Promise<Order | null>;
+  findByPaymentToken(paymentToken: string): Promise<Order | null>;
+  // Pending / reserved orders whose reservedUntil is at or before `date`, earliest
+  // deadline first; `after` (last order of the previous page) gives the next page
+  listHoldingExpiredAt(date: Date, limit: number, after?: Order): Promise<Order[]>;
+  // Pending / reserved orders written before reservedUntil existed, oldest first
+  listHoldingWithoutDeadline(limit: number, after?: Order): Promise<Order[]>;
+  // Appends the charge to pspReferences and makes it the current one
+  recordCharge(orderId: string, charge: PspCharge): Promise<void>;
+  update(orderId: string, data: OrderUpdate): Promise<void>;
+}
+
+export interface LiveSessionRepository {
+  // The vendor's session in progress, if any (orders are tagged with it)
+  getActive(vendorId: string): Promise<LiveSession | null>;
+}
+
+export type ConversationUpdate = Partial<Omit<Conversation, "id" | "vendorId" | "clientPhone" | "createdAt">>;
+
+export interface ConversationRepository {
+  get(vendorId: string, clientPhone: string): Promise<Conversation | null>;
+  // Replaces the whole conversation (fields left out are dropped)
+  save(conversation: Conversation): Promise<void>;
+  update(vendorId: string, clientPhone: string, data: ConversationUpdate): Promise<void>;
+}
+
+export interface Repositories {
+  vendorConfigs: VendorConfigRepository;
+  vendorSecrets: VendorSecretsRepository;
+  publicVendorProfiles: PublicVendorProfileRepository;
+  products: ProductRepository;
+  orders: OrderRepository;
+  liveSessions: LiveSessionRepository;
+  conversations: ConversationRepository;
+}
+
+export function conversationId(vendorId: string, clientPhone: string): string {
+  return `${vendorId}_${clientPhone}`;
+}
@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryRepositories, type MemoryRepositories } from "./repositories";
+import { firestore } from "./testing/firestore";
+import { addOrder, addProduct, CUSTOMER, makeOrder, makeProduct, VENDOR } from "./testing/fixtures";
+import { commitReservation, heldQuantity, releaseReservation, reserveStock, ReservationError } from "./reservations";
+
+vi.mock("./firebase", async () => (await import("./testing/firestore")).firebaseModule);
+
+const CUSTOMER_ACTOR = { type: "customer", id: CUSTOMER } as const;
+const PSP_ACTOR = { type: "psp", id: "bictorys" } as const;
+const SYSTEM_ACTOR = { type: "system", id: "expire-reservations" } as const;
+
+let repositories: MemoryRepositories;
+
+function reserve(quantity: number, messageId?: string) {
+  return reserveStock({
+    vendorId: VENDOR,
+    productId: "robe",
+    quantity,
+    clientPhone: CUSTOMER,
+    reservationMinutes: 10,
+    actor: CUSTOMER_ACTOR,
+    messageId,
+  });
+}
+
+function product() {
+  return firestore.read("products/robe");
+}
+
+beforeEach(() => {
+  firestore.clear();
+  repositories = createMemoryRepositories();
+  addProduct(repositories, makeProduct("robe", { stock: 5 }));
+});
+
+describe("reserveStock", () => {
+  it("holds the units and creates the reserved order", async () => {
+    const reservation = await reserve(2);
+
+    expect(product()).toMatchObject({ stock: 5, reservedStock: 2 });
+    expect(firestore.read(`orders/${reservation.orderId}`)).toMatchObject({
+      status: "reserved",
+      quantity: 2,
+      totalAmount: 20000,
+      stockReserved: true,
+    });
+    expect(firestore.list(`orders/${reservation.orderId}/statusHistory`)).toEqual([
+      expect.objectContaining({ from: null, to: "reserved" }),
+    ]);
+  });
+
+  it("refuses more units than are available", async () => {
+    await reserve(4);
+
+    await expect(reserve(2)).rejects.toMatchObject({ code: "out_of_stock" });
+    expect(product()).toMatchObject({ reservedStock: 4 });
+    expect(firestore.list("orders")).toHaveLength(1);
+  });
+
+  it("does not oversell to concurrent buyers", async () => {
+    const results = await Promise.allSettled([reserve(3), reserve(3)]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(["fulfilled", "rejected"]);
+    const failure = results.find((result) => result.status === "rejected") as PromiseRejectedResult;
+    expect(failure.reason).toBeInstanceOf(ReservationError);
+    expect(product()).toMatchObject({ reservedStock: 3 });
+  });
+
+  it("reserves once per WhatsApp message, even when it is delivered twice", async () => {
+    const { orderId } = await reserve(1, "wamid.1");
+
+    await expect(reserve(1, "wamid.1")).rejects.toMatchObject({ code: "duplicate_request" });
+    expect(product()).toMatchObject({ reservedStock: 1 });
+    expect(firestore.read("processedMessages/wamid.1")).toMatchObject({ orderId });
+  });
+});
+
+describe("commitReservation", () => {
+  it("turns the reservation into a stock decrement", async () => {
+    const { orderId } = await reserve(2);
+
+    expect(await commitReservation(orderId, PSP_ACTOR, { paymentMethod: "wave", pspReference: "ch_1" })).toBe(true);
+    expect(product()).toMatchObject({ stock: 3, reservedStock: 0 });
+    expect(firestore.read(`orders/${orderId}`)).toMatchObject({
+      status: "paid",
+      paymentMethod: "wave",
+      pspReferences: ["ch_1"],
+    });
+  });
+
+  it("is idempotent for replayed payments", async () => {
+    const { orderId } = await reserve(2);
+    await commitReservation(orderId, PSP_ACTOR);
+
+    expect(await commitReservation(orderId, PSP_ACTOR)).toBe(false);
+    expect(product()).toMatchObject({ stock: 3, reservedStock: 0 });
+    expect(firestore.list(`orders/${orderId}/statusHistory`)).toHaveLength(2);
+  });
+
+  it("refuses an order whose reservation expired", async () => {
+    const { orderId } = await reserve(2);
+    await releaseReservation(orderId, "expired", SYSTEM_ACTOR, "Réservation expirée");
+
+    await expect(commitReservation(orderId, PSP_ACTOR)).rejects.toMatchObject({ code: "invalid_state" });
+    expect(product()).toMatchObject({ stock: 5, reservedStock: 0 });
+    expect(firestore.read(`orders/${orderId}`)).toMatchObject({ status: "expired" });
+  });
+
+  it("reports unknown orders", async () => {
+    await expect(commitReservation("missing", PSP_ACTOR)).rejects.toMatchObject({ code: "order_not_found" });
+  });
+});
+
+describe("releaseReservation", () => {
+  it("gives the reserved units back once", async () => {
+    const { orderId } = await reserve(2);
+
+    expect(await releaseReservation(orderId, "cancelled", SYSTEM_ACTOR, "Annulée")).toBe(true);
+    expect(product()).toMatchObject({ stock: 5, reservedStock: 0 });
+    expect(await releaseReservation(orderId, "expired", SYSTEM_ACTOR, "Réservation expirée")).toBe(false);
+    expect(firestore.read(`orders/${orderId}`)).toMatchObject({ status: "cancelled" });
+  });
+
+  it("only changes the status of orders that held no stock", async () => {
+    firestore.seed("products/robe", { ...product(), reservedStock: 1 });
+    addOrder(repositories, makeOrder("legacy", { stockReserved: false }));
+
+    expect(await releaseReservation("legacy", "expired", SYSTEM_ACTOR, "Réservation expirée")).toBe(true);
+    expect(product()).toMatchObject({ reservedStock: 1 });
+    expect(firestore.read("orders/legacy")).toMatchObject({ status: "expired" });
+  });
+});
+
+describe("heldQuantity", () => {
+  it("only counts orders that reserved stock", () => {
+    expect(heldQuantity({ stockReserved: true, quantity: 3 })).toBe(3);
+    expect(heldQuantity({ stockReserved: false, quantity: 3 })).toBe(0);
+  });
+});
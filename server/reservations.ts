@@ -0,0 +1,351 @@
+import { db, Timestamp, FieldValue } from "./firebase";
+import type { Order, OrderStatus, OrderStatusChange, PaymentMethod, Product } from "@shared/types";
+import { canTransition, type StatusChangeActor } from "@shared/order-status";
+import { liveSessionConverter, orderConverter, orderStatusChangeConverter, productConverter } from "@shared/converters";
+import { liveOffer } from "@shared/live-lineup";
+import { normalizePhone } from "@shared/phone";
+import { recordStatsChange, type StatsOrder } from "./stats";
+import { getOverlaySnapshot, recordOverlayPaidOrder, recordOverlayReserved } from "./live-overlay";
+import { createPaymentLink } from "./payment-links";
+import { getClientSnapshot, meetsTrustThreshold, recordClientOrderEvent, trustScoreOf } from "./clients";
+
+/**
+ * Stock reservation service
+ * Available stock is `stock - reservedStock`. Every change goes through a
+ * Firestore transaction so concurrent buyers of the same keyword cannot oversell:
+ * - reserveStock: reservedStock += qty and order created ("reserved")
+ * - commitReservation: paid → stock -= qty, reservedStock -= qty
+ * - releaseReservation: expired / cancelled → reservedStock -= qty
+ * Only orders flagged stockReserved ever added to reservedStock; older orders
+ * just change status (see heldQuantity).
+ * Status moves follow shared/order-status.ts and are logged in the
+ * order's statusHistory subcollection and the vendor stats (server/stats.ts)
+ * within the same transaction. Orders placed during a live session take the
+ * lineup's flash price and count against its quantity cap (shared/live-lineup.ts);
+ * the session's stream overlay follows (server/live-overlay.ts). The
+ * customer's Client document and trust score follow too (server/clients.ts).
+ * Chatbot reservations record their WhatsApp message in processedMessages/{id},
+ * so a webhook delivered twice reserves once.
+ */
+
+export type ReservationErrorCode =
+  | "out_of_stock"
+  | "product_unavailable"
+  | "order_not_found"
+  | "invalid_state"
+  | "low_trust"
+  | "duplicate_request";
+
+export class ReservationError extends Error {
+  status = 409;
+
+  constructor(public code: ReservationErrorCode, message: string, public productName?: string) {
+    super(message);
+    this.name = "ReservationError";
+    if (code === "order_not_found") this.status = 404;
+    if (code === "low_trust") this.status = 403;
+  }
+}
+
+export interface ReservationRequest {
+  vendorId: string;
+  productId: string;
+  quantity: number;
+  clientPhone: string;
+  clientName?: string;
+  deliveryAddress?: string;
+  // Live session in progress when the order is placed; ignored once it has ended
+  sessionId?: string;
+  // Customers scoring below it are refused (VendorConfig.minTrustScoreRequired),
+  // except those without a paid or expired order yet
+  minTrustScore?: number;
+  reservationMinutes: number;
+  actor: StatusChangeActor;
+  // WhatsApp message asking for it; a redelivery of it reserves nothing
+  messageId?: string;
+}
+
+export interface Reservation {
+  orderId: string;
+  productName: string;
+  unitPrice: number;
+  totalAmount: number;
+  reservedUntil: Date;
+  paymentUrl: string;
+}
+
+type Transaction = FirebaseFirestore.Transaction;
+type DocumentReference = FirebaseFirestore.DocumentReference;
+
+function statsOrder(order: Order): StatsOrder {
+  return {
+    vendorId: order.vendorId,
+    productId: order.productId,
+    quantity: order.quantity,
+    totalAmount: order.totalAmount,
+    createdAt: order.createdAt,
+  };
+}
+
+// Reads the live session of an order inside the transaction
+async function getOrderSession(tx: Transaction, order: Order) {
+  if (!order.sessionId) return undefined;
+  const ref = db.collection("liveSessions").doc(order.sessionId);
+  return (await tx.get(ref.withConverter(liveSessionConverter))).data();
+}
+
+// Appends to orders/{orderId}/statusHistory
+export function recordStatusChange(
+  tx: Transaction,
+  orderRef: DocumentReference,
+  change: Omit<OrderStatusChange, "id" | "createdAt">
+): void {
+  const ref = orderRef.collection("statusHistory").doc().withConverter(orderStatusChangeConverter);
+  tx.set(ref, { ...change, id: ref.id, createdAt: new Date() });
+}
+
+export function availableStock(product: Pick<Product, "stock" | "reservedStock">): number {
+  return product.stock - (product.reservedStock || 0);
+}
+
+// Units this order holds in Product.reservedStock (and its live session cap)
+export function heldQuantity(order: Pick<Order, "stockReserved" | "quantity">): number {
+  return order.stockReserved === true ? order.quantity : 0;
+}
+
+/**
+ * Checks availability, increments reservedStock and creates the order
+ * in one transaction. Throws ReservationError when stock is short.
+ */
+export async function reserveStock(request: ReservationRequest): Promise<Reservation> {
+  const { vendorId, productId, quantity } = request;
+  const clientPhone = normalizePhone(request.clientPhone);
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new ReservationError("invalid_state", "Quantité invalide");
+  }
+
+  const orderRef = db.collection("orders").doc();
+  const productRef = db.collection("products").doc(productId);
+  const sessionRef = request.sessionId ? db.collection("liveSessions").doc(request.sessionId) : null;
+  const messageRef = request.messageId ? db.collection("processedMessages").doc(request.messageId) : null;
+  const paymentLink = createPaymentLink();
+  const paymentUrl = paymentLink.url;
+
+  return db.runTransaction(async (tx) => {
+    if (messageRef && (await tx.get(messageRef)).exists) {
+      throw new ReservationError("duplicate_request", "Message déjà traité");
+    }
+    const snap = await tx.get(productRef.withConverter(productConverter));
+    const product = snap.data();
+    if (!product || !product.active || product.vendorId !== vendorId) {
+      throw new ReservationError("product_unavailable", "Produit indisponible", product?.name);
+    }
+    if (availableStock(product) < quantity) {
+      throw new ReservationError("out_of_stock", "Stock insuffisant", product.name);
+    }
+
+    // Read in the transaction so the session cannot end, or its cap fill up, in between
+    const session = sessionRef ? (await tx.get(sessionRef.withConverter(liveSessionConverter))).data() : undefined;
+    const live = session?.active && session.vendorId === vendorId ? session : null;
+    const offer = liveOffer(live, product);
+    if (offer?.remaining != null && offer.remaining < quantity) {
+      throw new ReservationError("out_of_stock", "Quantité live épuisée", product.name);
+    }
+    const overlay = live ? await getOverlaySnapshot(tx, live) : null;
+
+    const client = await getClientSnapshot(tx, vendorId, clientPhone);
+    const clientTrustScore = trustScoreOf(client);
+    if (!meetsTrustThreshold(client, request.minTrustScore)) {
+      throw new ReservationError("low_trust", "Score de confiance insuffisant", product.name);
+    }
+
+    const now = Timestamp.now();
+    const reservedUntil = Timestamp.fromMillis(now.toMillis() + request.reservationMinutes * 60 * 1000);
+    const unitPrice = offer?.price ?? product.price;
+    const totalAmount = unitPrice * quantity;
+
+    tx.update(productRef, { reservedStock: (product.reservedStock || 0) + quantity });
+    if (live) {
+      tx.update(sessionRef!, { [`reservedByProduct.${productId}`]: FieldValue.increment(quantity) });
+      recordOverlayReserved(tx, overlay, productId, quantity);
+    }
+    tx.set(orderRef, {
+      vendorId,
+      productId,
+      productName: product.name,
+      clientId: client.ref.id,
+      clientPhone,
+      clientName: request.clientName || null,
+      clientTrustScore,
+      quantity,
+      unitPrice,
+      totalAmount,
+      status: "reserved",
+      paymentUrl,
+      paymentToken: paymentLink.token,
+      paymentTokenExpiresAt: Timestamp.fromDate(paymentLink.expiresAt),
+      deliveryAddress: request.deliveryAddress || null,
+      sessionId: live?.id || null,
+      stockReserved: true,
+      reminderSent: false,
+      reservedAt: now,
+      reservedUntil,
+      paidAt: null,
+      createdAt: now,
+      updatedAt: now,
+    });
+    if (messageRef) tx.create(messageRef, { vendorId, orderId: orderRef.id, createdAt: now });
+    recordStatusChange(tx, orderRef, {
+      from: null,
+      to: "reserved",
+      actor: request.actor,
+      reason: `${quantity} unité(s) réservée(s) pour ${request.reservationMinutes} min`,
+    });
+    recordStatsChange(
+      tx,
+      { vendorId, productId, quantity, totalAmount, createdAt: now.toDate() },
+      { from: null, to: "reserved" }
+    );
+    recordClientOrderEvent(tx, client, { type: "created", at: now.toDate() }, { clientName: request.clientName });
+
+    return {
+      orderId: orderRef.id,
+      productName: product.name,
+      unitPrice,
+      totalAmount,
+      reservedUntil: reservedUntil.toDate(),
+      paymentUrl,
+    };
+  });
+}
+
+/**
+ * Marks the order paid and turns its reservation into a real stock decrement.
+ * Returns false when the order was already paid (nothing changed), which makes
+ * replayed PSP webhooks harmless.
+ */
+export async function commitReservation(
+  orderId: string,
+  actor: StatusChangeActor,
+  payment: { paymentMethod?: PaymentMethod; paymentReference?: string; pspReference?: string } = {}
+): Promise<boolean> {
+  const orderRef = db.collection("orders").doc(orderId);
+
+  return db.runTransaction(async (tx) => {
+    const order = (await tx.get(orderRef.withConverter(orderConverter))).data();
+    if (!order) {
+      throw new ReservationError("order_not_found", "Commande introuvable");
+    }
+    if (order.status === "paid") return false;
+    if (!canTransition(order.status, "paid")) {
+      throw new ReservationError("invalid_state", `Commande ${order.status}, paiement impossible`);
+    }
+
+    const productRef = db.collection("products").doc(order.productId);
+    const product = (await tx.get(productRef.withConverter(productConverter))).data();
+    const overlay = await getOverlaySnapshot(tx, await getOrderSession(tx, order));
+    const client = order.clientPhone ? await getClientSnapshot(tx, order.vendorId, order.clientPhone) : null;
+    const now = Timestamp.now();
+
+    if (product) {
+      tx.update(productRef, {
+        stock: Math.max(0, product.stock - order.quantity),
+        reservedStock: Math.max(0, (product.reservedStock || 0) - heldQuantity(order)),
+      });
+    }
+
+    // Time from reservation to payment, used for client trust and analytics
+    const startedAt = order.reservedAt ?? order.createdAt;
+    const paymentTimeSeconds = Math.max(0, Math.round((now.toMillis() - startedAt.getTime()) / 1000));
+
+    tx.update(orderRef, {
+      status: "paid",
+      paidAt: now,
+      paymentTimeSeconds,
+      updatedAt: now,
+      ...(payment.paymentMethod && { paymentMethod: payment.paymentMethod }),
+      ...(payment.paymentReference && { paymentReference: payment.paymentReference }),
+      ...(payment.pspReference && {
+        pspReference: payment.pspReference,
+        pspReferences: FieldValue.arrayUnion(payment.pspReference),
+      }),
+    });
+    recordStatusChange(tx, orderRef, {
+      from: order.status,
+      to: "paid",
+      actor,
+      reason: payment.pspReference
+        ? `Paiement confirmé (${payment.pspReference})`
+        : `Paiement enregistré${payment.paymentMethod ? ` (${payment.paymentMethod})` : ""}`,
+    });
+    recordOverlayPaidOrder(tx, overlay, order, now);
+    if (client) {
+      recordClientOrderEvent(tx, client, {
+        type: "paid",
+        at: now.toDate(),
+        amount: order.totalAmount,
+        paymentTimeSeconds,
+        paymentMethod: payment.paymentMethod || order.paymentMethod,
+      });
+    }
+    recordStatsChange(tx, statsOrder(order), {
+      from: order.status,
+      to: "paid",
+      paymentMethod: payment.paymentMethod || order.paymentMethod,
+      paymentTimeSeconds,
+      paidAt: now.toDate(),
+    });
+    return true;
+  });
+}
+
+/**
+ * Expires or cancels the order and gives its reserved units back.
+ * Returns false when the order no longer held stock (already released or paid).
+ */
+export async function releaseReservation(
+  orderId: string,
+  status: Extract<OrderStatus, "expired" | "cancelled">,
+  actor: StatusChangeActor,
+  reason: string
+): Promise<boolean> {
+  const orderRef = db.collection("orders").doc(orderId);
+
+  return db.runTransaction(async (tx) => {
+    const order = (await tx.get(orderRef.withConverter(orderConverter))).data();
+    if (!order) {
+      throw new ReservationError("order_not_found", "Commande introuvable");
+    }
+    if (!canTransition(order.status, status)) return false;
+
+    // Orders written before reserveStock held nothing: only their status changes
+    const held = heldQuantity(order);
+    const productRef = db.collection("products").doc(order.productId);
+    const product = held > 0 ? (await tx.get(productRef.withConverter(productConverter))).data() : undefined;
+    // Frees the units for the session's quantity cap
+    const session = held > 0 ? await getOrderSession(tx, order) : undefined;
+    const overlay = await getOverlaySnapshot(tx, session);
+    // Cancellations are the vendor's call and do not count against the client
+    const client = status === "expired" && order.clientPhone
+      ? await getClientSnapshot(tx, order.vendorId, order.clientPhone)
+      : null;
+
+    if (product) {
+      tx.update(productRef, {
+        reservedStock: Math.max(0, (product.reservedStock || 0) - held),
+      });
+    }
+    if (session) {
+      tx.update(db.collection("liveSessions").doc(session.id), {
+        [`reservedByProduct.${order.productId}`]: FieldValue.increment(-held),
+      });
+      recordOverlayReserved(tx, overlay, order.productId, -held);
+    }
+
+    tx.update(orderRef, { status, updatedAt: Timestamp.now() });
+    recordStatusChange(tx, orderRef, { from: order.status, to: status, actor, reason });
+    recordStatsChange(tx, statsOrder(order), { from: order.status, to: status });
+    if (client) recordClientOrderEvent(tx, client, { type: "expired", at: new Date() });
+    return true;
+  });
+}
@@ -1,5 +1,31 @@
 import type { Express } from "express";
 import { type Server } from "http";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { requireAuth } from "./auth";
+import { APP_HOST } from "./config";
+import { getRepositories } from "./repositories";
+import { canTransition } from "@shared/order-status";
+import {
+  createOrderSchema,
+  paymentMethodSchema,
+  updatePhoneNumberIdSchema,
+  updateVendorSecretsSchema,
+  type PaymentLinkView,
+} from "@shared/types";
+import { reserveStock, commitReservation, releaseReservation, ReservationError } from "./reservations";
+import { resolvePaymentToken } from "./payment-links";
+import {
+  getPaymentProvider,
+  getPaymentProviderByName,
+  processPaymentEvent,
+  MockPaymentProvider,
+  PaymentProviderError,
+} from "./payments";
+import { processIncomingMessage } from "./whatsapp/service";
+import { parseReplyId } from "./whatsapp/messages";
+import { isKnownVerifyToken, verifyWhatsAppSignature } from "./whatsapp/security";
+import type { IncomingMessage, WhatsAppWebhookBody } from "./whatsapp/types";
 
 /**
  * Minimal routes for development server
@@ -7,9 +33,23 @@ import { type Server } from "http";
  * This server is only for:
  * - Local development (Vite proxy)
  * - Health check endpoint
- * - WhatsApp webhook (to be moved to Firebase Cloud Functions for production)
+ * - WhatsApp webhook + chatbot (see server/whatsapp/service.ts)
+ * - Order writes that touch stock (see server/reservations.ts)
+ * - Pay links and payment charges through the PSP (see server/payment-links.ts, server/payments)
+ * - Vendor WhatsApp credentials, write-only (see server/secrets.ts)
+ * - The vendor's WhatsApp phone_number_id, unique across vendors
  */
 
+const chargeSchema = z.object({
+  paymentMethod: paymentMethodSchema,
+});
+
+const orderStatusSchema = z.object({
+  status: z.enum(["paid", "cancelled"]),
+  paymentMethod: paymentMethodSchema.optional(),
+  reason: z.string().max(500).optional(),
+});
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -25,16 +65,254 @@ export async function registerRoutes(
     });
   });
 
+  // WhatsApp credentials: only whether each one is set is ever sent back
+  app.get("/api/vendor/secrets", requireAuth, async (req, res) => {
+    res.json(await getRepositories().vendorSecrets.getStatus(req.uid!));
+  });
+
+  app.put("/api/vendor/secrets", requireAuth, async (req, res) => {
+    const parsed = updateVendorSecretsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const { vendorSecrets } = getRepositories();
+    await vendorSecrets.update(req.uid!, parsed.data);
+    res.json(await vendorSecrets.getStatus(req.uid!));
+  });
+
+  // Webhooks are routed by phone_number_id, so one number maps to one vendor
+  app.put("/api/vendor/phone-number-id", requireAuth, async (req, res) => {
+    const parsed = updatePhoneNumberIdSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const { phoneNumberId } = parsed.data;
+    const claim = await getRepositories().vendorConfigs.setPhoneNumberId(req.uid!, phoneNumberId);
+    if (claim === "no_config") {
+      return res.status(404).json({ message: "Enregistrez d'abord les paramètres de la boutique" });
+    }
+    if (claim === "taken") {
+      return res.status(409).json({ message: "Ce numéro WhatsApp est déjà connecté à une autre boutique" });
+    }
+    res.json({ phoneNumberId });
+  });
+
+  // Manual order from the dashboard: reserves stock like the chatbot does
+  app.post("/api/orders", requireAuth, async (req, res) => {
+    const parsed = createOrderSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const { vendorConfigs, liveSessions } = getRepositories();
+    const [config, session] = await Promise.all([
+      vendorConfigs.getByVendorId(req.uid!),
+      liveSessions.getActive(req.uid!),
+    ]);
+    const reservationMinutes = config?.reservationDurationMinutes || 10;
+
+    try {
+      const reservation = await reserveStock({
+        ...parsed.data,
+        vendorId: req.uid!,
+        sessionId: session?.id,
+        reservationMinutes,
+        actor: { type: "vendor", id: req.uid! },
+      });
+      res.status(201).json(reservation);
+    } catch (error) {
+      if (error instanceof ReservationError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      throw error;
+    }
+  });
+
+  // Vendor marks an order paid (e.g. cash) or cancels it; stock follows
+  app.post("/api/orders/:id/status", requireAuth, async (req, res) => {
+    const parsed = orderStatusSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    const order = await getRepositories().orders.getById(String(req.params.id));
+    if (!order || order.vendorId !== req.uid) {
+      return res.status(404).json({ message: "Commande introuvable" });
+    }
+    if (order.status !== parsed.data.status && !canTransition(order.status, parsed.data.status)) {
+      return res.status(409).json({ message: `Transition de statut interdite: ${order.status} → ${parsed.data.status}` });
+    }
+
+    try {
+      const actor = { type: "vendor" as const, id: req.uid! };
+      const changed = parsed.data.status === "paid"
+        ? await commitReservation(order.id, actor, { paymentMethod: parsed.data.paymentMethod })
+        : await releaseReservation(order.id, "cancelled", actor, parsed.data.reason || "Annulée par le vendeur");
+      res.json({ id: order.id, status: parsed.data.status, changed });
+    } catch (error) {
+      if (error instanceof ReservationError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      throw error;
+    }
+  });
+
+  // Pay page: the order behind the link, reduced to what the buyer needs to see
+  app.get("/api/pay/:token", async (req, res) => {
+    const order = await resolvePaymentToken(String(req.params.token));
+    if (!order) {
+      return res.status(404).json({ message: "Lien de paiement invalide ou expiré" });
+    }
+
+    const vendor = await getRepositories().publicVendorProfiles.getByVendorId(order.vendorId);
+    const view: PaymentLinkView = {
+      productName: order.productName || "Produit",
+      quantity: order.quantity,
+      amount: order.totalAmount,
+      clientName: order.clientName,
+      status: order.status,
+      expiresAt: order.reservedUntil?.toISOString(),
+      vendorName: vendor?.displayName || "Vendeur",
+      vendorPhone: vendor?.contactPhone,
+    };
+    res.json(view);
+  });
+
+  // Pay page: start a payment for the order behind the link
+  app.post("/api/pay/:token/charge", async (req, res) => {
+    const parsed = chargeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    const { paymentMethod } = parsed.data;
+
+    const token = String(req.params.token);
+    const { orders, publicVendorProfiles } = getRepositories();
+    const order = await resolvePaymentToken(token);
+    if (!order) {
+      return res.status(404).json({ message: "Lien de paiement invalide ou expiré" });
+    }
+
+    if (order.status !== "pending" && order.status !== "reserved") {
+      return res.status(409).json({ message: `Commande ${order.status}` });
+    }
+    if (order.reservedUntil && order.reservedUntil.getTime() <= Date.now()) {
+      return res.status(410).json({ message: "Lien de paiement expiré" });
+    }
+
+    const vendorPhone = (await publicVendorProfiles.getByVendorId(order.vendorId))?.contactPhone;
+
+    // Cash is settled with the vendor directly, no PSP involved
+    if (paymentMethod === "cash") {
+      await orders.update(order.id, { paymentMethod, updatedAt: new Date() });
+      return res.json({
+        paymentMethod,
+        amount: order.totalAmount,
+        vendorPhone,
+        instructions: "Contactez le vendeur pour organiser le paiement en espèces",
+      });
+    }
+
+    const provider = getPaymentProvider();
+    const returnUrl = `${APP_HOST}/pay/${token}`;
+    try {
+      const charge = await provider.createCharge({
+        orderId: order.id,
+        amount: order.totalAmount,
+        currency: "XOF",
+        paymentMethod,
+        customerPhone: order.clientPhone,
+        customerName: order.clientName,
+        description: `${order.productName || "Commande"} x${order.quantity}`,
+        successUrl: `${returnUrl}?status=completed`,
+        errorUrl: `${returnUrl}?status=failed`,
+      });
+
+      await orders.recordCharge(order.id, {
+        provider: provider.name,
+        pspReference: charge.pspReference,
+        paymentMethod,
+      });
+
+      res.json({
+        paymentMethod,
+        amount: order.totalAmount,
+        vendorPhone,
+        redirectUrl: charge.redirectUrl,
+        ussdCode: charge.ussdCode,
+        instructions: charge.instructions,
+      });
+    } catch (error) {
+      if (error instanceof PaymentProviderError) {
+        console.error(`[Payments] ${provider.name} charge failed:`, error.message);
+        return res.status(error.status).json({ message: "Échec de l'initialisation du paiement" });
+      }
+      throw error;
+    }
+  });
+
+  // PSP callbacks: signature checked by the provider, order confirmed once
+  app.post("/api/webhooks/payments/:provider", async (req, res) => {
+    const provider = getPaymentProviderByName(String(req.params.provider));
+    if (!provider) {
+      return res.sendStatus(404);
+    }
+    if (!Buffer.isBuffer(req.rawBody)) {
+      return res.sendStatus(400);
+    }
+
+    try {
+      const event = provider.handleWebhook(req.headers, req.rawBody);
+      const outcome = await processPaymentEvent(provider.name, event);
+      // Not 2xx, so the PSP delivers it again
+      if (outcome === "unmatched") return res.status(404).json({ received: false, outcome });
+      res.json({ received: true, outcome });
+    } catch (error) {
+      if (error instanceof PaymentProviderError) {
+        console.warn(`[Payments] ${provider.name} webhook rejected: ${error.message}`);
+        return res.sendStatus(error.status);
+      }
+      throw error;
+    }
+  });
+
+  // Fake hosted checkout of the mock provider (offline testing)
+  if (getPaymentProvider().name === "mock") {
+    app.get("/api/payments/mock/checkout/:reference", async (req, res) => {
+      const provider = getPaymentProviderByName("mock") as MockPaymentProvider;
+      const pspReference = String(req.params.reference);
+      try {
+        const charge = provider.settle(pspReference, "succeeded");
+        // Same path as a real PSP webhook
+        const outcome = await processPaymentEvent(provider.name, {
+          pspReference,
+          status: "succeeded",
+          orderId: charge.orderId,
+          paymentMethod: charge.paymentMethod,
+          amount: charge.amount,
+          currency: charge.currency,
+        });
+        if (outcome === "unmatched") return res.status(404).json({ message: "Commande introuvable" });
+        res.redirect(charge.successUrl);
+      } catch (error) {
+        if (error instanceof PaymentProviderError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        throw error;
+      }
+    });
+  }
+
   // WhatsApp webhook verification (GET request from Meta)
-  app.get("/api/webhooks/whatsapp", (req, res) => {
+  app.get("/api/webhooks/whatsapp", async (req, res) => {
     const mode = req.query["hub.mode"];
     const token = req.query["hub.verify_token"];
     const challenge = req.query["hub.challenge"];
 
-    // The verify token should be configured in Firebase environment
-    const verifyToken = process.env.WHATSAPP_VERIFY_TOKEN || "livepay-webhook-verify";
-
-    if (mode === "subscribe" && token === verifyToken) {
+    // Each vendor sets its own verify token in VendorConfig
+    if (mode === "subscribe" && typeof token === "string" && await isKnownVerifyToken(token)) {
       console.log("[WhatsApp Webhook] Verified successfully");
       res.status(200).send(challenge);
     } else {
@@ -45,34 +323,53 @@ export async function registerRoutes(
 
   // WhatsApp webhook messages (POST from Meta)
   // In production, this will be handled by Firebase Cloud Functions
-  app.post("/api/webhooks/whatsapp", (req, res) => {
-    const body = req.body;
-    
-    console.log("[WhatsApp Webhook] Received:", JSON.stringify(body, null, 2));
-    
-    // Always respond 200 to Meta quickly
+  app.post("/api/webhooks/whatsapp", verifyWhatsAppSignature, (req, res) => {
+    const body = req.body as WhatsAppWebhookBody;
+
+    // Always respond 200 to Meta quickly, process afterwards
     res.sendStatus(200);
-    
-    // TODO: Process webhook in Firebase Cloud Functions
-    // For now, just log the incoming messages
-    if (body.object === "whatsapp_business_account") {
-      const entries = body.entry || [];
-      for (const entry of entries) {
-        const changes = entry.changes || [];
-        for (const change of changes) {
-          if (change.field === "messages") {
-            const value = change.value;
-            const messages = value?.messages || [];
-            
-            for (const message of messages) {
-              console.log("[WhatsApp] Message from:", message.from);
-              console.log("[WhatsApp] Content:", message.text?.body || message.type);
-            }
-          }
-        }
-      }
+
+    if (body.object !== "whatsapp_business_account") return;
+
+    for (const message of extractIncomingMessages(body)) {
+      console.log("[WhatsApp] Message from:", message.from);
+      processIncomingMessage(message).catch((error) => {
+        console.error("[WhatsApp] Error processing message:", error);
+      });
     }
   });
 
   return httpServer;
 }
+
+// Flattens entry[].changes[].value.messages[] into text / button replies for the chatbot
+function extractIncomingMessages(body: WhatsAppWebhookBody): IncomingMessage[] {
+  const result: IncomingMessage[] = [];
+  for (const entry of body.entry || []) {
+    for (const change of entry.changes || []) {
+      if (change.field !== "messages" || !change.value) continue;
+      const contacts = change.value.contacts || [];
+      const phoneNumberId = change.value.metadata?.phone_number_id;
+      if (!phoneNumberId) continue;
+
+      for (const message of change.value.messages || []) {
+        const contact = contacts.find((c) => c.wa_id === message.from);
+        const base = {
+          messageId: message.id,
+          phoneNumberId,
+          from: message.from,
+          customerName: contact?.profile?.name,
+        };
+
+        if (message.type === "text" && message.text) {
+          result.push({ ...base, text: message.text.body });
+        } else if (message.type === "interactive" && message.interactive) {
+          const reply = message.interactive.button_reply || message.interactive.list_reply;
+          if (!reply) continue;
+          result.push({ ...base, text: reply.title, action: parseReplyId(reply.id) || undefined });
+        }
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,48 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+/**
+ * Encryption at rest for vendor secrets (vendorSecrets collection)
+ * AES-256-GCM with SECRETS_ENCRYPTION_KEY (32 bytes, base64). Payloads are
+ * "v1:<iv>:<tag>:<ciphertext>" so the scheme can change later.
+ */
+
+const ALGORITHM = "aes-256-gcm";
+const VERSION = "v1";
+
+export class SecretsConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SecretsConfigError";
+  }
+}
+
+function encryptionKey(): Buffer {
+  const raw = process.env.SECRETS_ENCRYPTION_KEY;
+  if (!raw) throw new SecretsConfigError("SECRETS_ENCRYPTION_KEY is not set");
+  const key = Buffer.from(raw, "base64");
+  if (key.length !== 32) throw new SecretsConfigError("SECRETS_ENCRYPTION_KEY must be 32 bytes (base64)");
+  return key;
+}
+
+export function encryptSecret(value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [VERSION, iv.toString("base64"), tag.toString("base64"), ciphertext.toString("base64")].join(":");
+}
+
+export function decryptSecret(payload: string): string {
+  const [version, iv, tag, ciphertext] = payload.split(":");
+  if (version !== VERSION || !iv || !tag || !ciphertext) {
+    throw new SecretsConfigError("Unknown secret format");
+  }
+  const decipher = createDecipheriv(ALGORITHM, encryptionKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf8");
+}
+
+// For secrets that only need to be recognised (webhook verify tokens)
+export function hashSecret(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
@@ -0,0 +1,186 @@
+import { db, Timestamp, FieldValue } from "./firebase";
+import { paymentTimeBucket, statsHour, type OrderStatus, type PaymentMethod } from "@shared/types";
+
+/**
+ * Vendor stats counters (see VendorStats in shared/types.ts)
+ * Updated inside the reservation transactions, so the counters move
+ * exactly once per status change. Orders are bucketed by creation day:
+ * statusCounts says how many of that day's orders are in each status.
+ */
+
+type Transaction = FirebaseFirestore.Transaction;
+
+export interface StatsOrder {
+  vendorId: string;
+  productId: string;
+  quantity: number;
+  totalAmount: number;
+  createdAt: Date;
+}
+
+export interface StatsChange {
+  from: OrderStatus | null;
+  to: OrderStatus;
+  paymentMethod?: PaymentMethod;
+  paymentTimeSeconds?: number;
+  paidAt?: Date;
+}
+
+// Senegal is on UTC all year, so the UTC date is the vendor's local date
+export function statsDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function vendorStatsRef(vendorId: string) {
+  return db.collection("vendorStats").doc(vendorId);
+}
+
+function counterUpdate(order: StatsOrder, change: StatsChange): Record<string, unknown> {
+  const statusCounts: Record<string, unknown> = { [change.to]: FieldValue.increment(1) };
+  if (change.from) statusCounts[change.from] = FieldValue.increment(-1);
+
+  const update: Record<string, unknown> = {
+    vendorId: order.vendorId,
+    statusCounts,
+    updatedAt: Timestamp.now(),
+  };
+  if (change.from === null) {
+    update.ordersCreated = FieldValue.increment(1);
+    update.reservationsByProduct = { [order.productId]: FieldValue.increment(1) };
+  }
+
+  if (change.to === "paid") {
+    const hour = statsHour(change.paidAt || new Date());
+    update.revenue = FieldValue.increment(order.totalAmount);
+    update.revenueByPaymentMethod = {
+      [change.paymentMethod || "unknown"]: FieldValue.increment(order.totalAmount),
+    };
+    update.unitsByProduct = { [order.productId]: FieldValue.increment(order.quantity) };
+    update.paidOrdersByProduct = { [order.productId]: FieldValue.increment(1) };
+    update.paidOrdersByHour = { [hour]: FieldValue.increment(1) };
+    update.revenueByHour = { [hour]: FieldValue.increment(order.totalAmount) };
+    if (change.paymentTimeSeconds !== undefined) {
+      update.paymentTimeSecondsTotal = FieldValue.increment(change.paymentTimeSeconds);
+      update.paymentTimeCount = FieldValue.increment(1);
+      update.paymentTimeBuckets = { [paymentTimeBucket(change.paymentTimeSeconds)]: FieldValue.increment(1) };
+    }
+  }
+  return update;
+}
+
+// Blind writes only, so it can follow the transaction's reads
+export function recordStatsChange(tx: Transaction, order: StatsOrder, change: StatsChange): void {
+  const update = counterUpdate(order, change);
+  const date = statsDay(order.createdAt);
+  const totalsRef = vendorStatsRef(order.vendorId);
+
+  tx.set(totalsRef, update, { merge: true });
+  tx.set(totalsRef.collection("days").doc(date), { ...update, date }, { merge: true });
+}
+
+// Chatbot recognised a product keyword; counted on the day it happened
+export async function recordKeywordHit(vendorId: string, productId: string): Promise<void> {
+  const update = {
+    vendorId,
+    keywordHits: FieldValue.increment(1),
+    keywordHitsByProduct: { [productId]: FieldValue.increment(1) },
+    updatedAt: Timestamp.now(),
+  };
+  const date = statsDay(new Date());
+  const totalsRef = vendorStatsRef(vendorId);
+
+  const batch = db.batch();
+  batch.set(totalsRef, update, { merge: true });
+  batch.set(totalsRef.collection("days").doc(date), { ...update, date }, { merge: true });
+  await batch.commit();
+}
+
+type Counters = {
+  vendorId: string;
+  ordersCreated: number;
+  statusCounts: Record<string, number>;
+  reservationsByProduct: Record<string, number>;
+  paidOrdersByProduct: Record<string, number>;
+  revenue: number;
+  revenueByPaymentMethod: Record<string, number>;
+  unitsByProduct: Record<string, number>;
+  paidOrdersByHour: Record<string, number>;
+  revenueByHour: Record<string, number>;
+  paymentTimeSecondsTotal: number;
+  paymentTimeCount: number;
+  paymentTimeBuckets: Record<string, number>;
+};
+
+function emptyCounters(vendorId: string): Counters {
+  return {
+    vendorId,
+    ordersCreated: 0,
+    statusCounts: {},
+    reservationsByProduct: {},
+    paidOrdersByProduct: {},
+    revenue: 0,
+    revenueByPaymentMethod: {},
+    unitsByProduct: {},
+    paidOrdersByHour: {},
+    revenueByHour: {},
+    paymentTimeSecondsTotal: 0,
+    paymentTimeCount: 0,
+    paymentTimeBuckets: {},
+  };
+}
+
+function add(record: Record<string, number>, key: string, amount: number): void {
+  record[key] = (record[key] || 0) + amount;
+}
+
+function addOrder(counters: Counters, order: FirebaseFirestore.DocumentData): void {
+  counters.ordersCreated++;
+  add(counters.statusCounts, order.status, 1);
+  add(counters.reservationsByProduct, order.productId, 1);
+  if (order.status !== "paid") return;
+
+  const hour = statsHour(order.paidAt?.toDate() || order.createdAt?.toDate() || new Date());
+  counters.revenue += order.totalAmount;
+  add(counters.revenueByPaymentMethod, order.paymentMethod || "unknown", order.totalAmount);
+  add(counters.unitsByProduct, order.productId, order.quantity);
+  add(counters.paidOrdersByProduct, order.productId, 1);
+  add(counters.paidOrdersByHour, hour, 1);
+  add(counters.revenueByHour, hour, order.totalAmount);
+  if (typeof order.paymentTimeSeconds === "number") {
+    counters.paymentTimeSecondsTotal += order.paymentTimeSeconds;
+    counters.paymentTimeCount++;
+    add(counters.paymentTimeBuckets, paymentTimeBucket(order.paymentTimeSeconds), 1);
+  }
+}
+
+/**
+ * Recomputes a vendor's counters from its orders (script/rebuild-stats.ts).
+ * For orders created before the counters existed; run it while no live is on.
+ */
+export async function rebuildVendorStats(vendorId: string): Promise<number> {
+  const snap = await db.collection("orders").where("vendorId", "==", vendorId).get();
+  const totals = emptyCounters(vendorId);
+  const days = new Map<string, Counters>();
+
+  for (const d of snap.docs) {
+    const order = d.data();
+    const date = statsDay(order.createdAt?.toDate() || new Date());
+    if (!days.has(date)) days.set(date, emptyCounters(vendorId));
+    addOrder(totals, order);
+    addOrder(days.get(date)!, order);
+  }
+
+  const now = Timestamp.now();
+  const totalsRef = vendorStatsRef(vendorId);
+  const writer = db.bulkWriter();
+  // mergeFields replaces the order counters but keeps keywordHits, which orders cannot rebuild
+  const write = (ref: FirebaseFirestore.DocumentReference, data: Record<string, unknown>) =>
+    writer.set(ref, data, { mergeFields: Object.keys(data) });
+
+  write(totalsRef, { ...totals, updatedAt: now });
+  days.forEach((counters, date) => {
+    write(totalsRef.collection("days").doc(date), { ...counters, date, updatedAt: now });
+  });
+  await writer.close();
+  return snap.size;
+}
@@ -0,0 +1,281 @@
+import { randomBytes } from "crypto";
+import { FieldPath, Timestamp } from "firebase-admin/firestore";
+import type { DocumentConverter, DocumentData } from "@shared/converters";
+
+/**
+ * In-memory stand-in for the Admin SDK Firestore (tests only)
+ * Covers what the reservation transactions and their helpers use: document
+ * references, converters, transactions (reads before writes, retried when a
+ * document they read changed before the commit) and the increment / arrayUnion
+ * field transforms. Tests swap it in for server/firebase.ts:
+ *
+ *   vi.mock("../firebase", async () => (await import("../testing/firestore")).firebaseModule);
+ *
+ * Queries are not supported: the repositories are replaced by their memory
+ * implementations (server/repositories/memory.ts) instead.
+ */
+
+type Data = Record<string, unknown>;
+type Converter = DocumentConverter<unknown>;
+
+const MAX_ATTEMPTS = 5;
+
+// ========== FIELD VALUES ==========
+
+class IncrementTransform {
+  constructor(readonly operand: number) {}
+}
+
+class ArrayUnionTransform {
+  constructor(readonly elements: unknown[]) {}
+}
+
+export const FieldValue = {
+  increment: (operand: number) => new IncrementTransform(operand),
+  arrayUnion: (...elements: unknown[]) => new ArrayUnionTransform(elements),
+};
+
+function isPlainObject(value: unknown): value is Data {
+  return typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function clone<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, clone(field)])) as T;
+  }
+  return value;
+}
+
+function applyValue(current: unknown, value: unknown): unknown {
+  if (value instanceof IncrementTransform) return (typeof current === "number" ? current : 0) + value.operand;
+  if (value instanceof ArrayUnionTransform) {
+    const array = Array.isArray(current) ? [...current] : [];
+    for (const element of value.elements) if (!array.includes(element)) array.push(element);
+    return array;
+  }
+  if (isPlainObject(value)) return mergeData({}, value);
+  return value;
+}
+
+// set(..., { merge: true }): nested maps are merged rather than replaced
+function mergeData(target: Data, data: Data): Data {
+  for (const [key, value] of Object.entries(data)) {
+    target[key] = isPlainObject(value) && isPlainObject(target[key])
+      ? mergeData(target[key] as Data, value)
+      : applyValue(target[key], value);
+  }
+  return target;
+}
+
+// update(): keys are field paths ("reservedByProduct.robe")
+function updateData(target: Data, data: Data): Data {
+  for (const [path, value] of Object.entries(data)) {
+    const keys = path.split(".");
+    let parent = target;
+    for (const key of keys.slice(0, -1)) {
+      if (!isPlainObject(parent[key])) parent[key] = {};
+      parent = parent[key] as Data;
+    }
+    const last = keys[keys.length - 1];
+    parent[last] = applyValue(parent[last], value);
+  }
+  return target;
+}
+
+// ========== REFERENCES AND SNAPSHOTS ==========
+
+export class FakeDocumentSnapshot {
+  constructor(readonly ref: FakeDocumentReference, private readonly stored: Data | undefined) {}
+
+  get id(): string {
+    return this.ref.id;
+  }
+
+  get exists(): boolean {
+    return this.stored !== undefined;
+  }
+
+  data(): unknown {
+    if (this.stored === undefined) return undefined;
+    const converter = this.ref.converter;
+    if (!converter) return clone(this.stored);
+    return converter.fromFirestore({ id: this.id, data: () => clone(this.stored) as DocumentData });
+  }
+
+  get(field: string): unknown {
+    let value: unknown = this.stored;
+    for (const key of field.split(".")) value = isPlainObject(value) ? value[key] : undefined;
+    return clone(value);
+  }
+}
+
+export class FakeDocumentReference {
+  constructor(
+    private readonly store: FakeFirestore,
+    readonly path: string,
+    readonly converter: Converter | null = null
+  ) {}
+
+  get id(): string {
+    return this.path.slice(this.path.lastIndexOf("/") + 1);
+  }
+
+  collection(name: string): FakeCollectionReference {
+    return new FakeCollectionReference(this.store, `${this.path}/${name}`);
+  }
+
+  withConverter(converter: Converter | null): FakeDocumentReference {
+    return new FakeDocumentReference(this.store, this.path, converter);
+  }
+
+  async get(): Promise<FakeDocumentSnapshot> {
+    return this.store.snapshot(this);
+  }
+}
+
+export class FakeCollectionReference {
+  constructor(private readonly store: FakeFirestore, readonly path: string) {}
+
+  doc(id: string = randomBytes(10).toString("hex")): FakeDocumentReference {
+    return new FakeDocumentReference(this.store, `${this.path}/${id}`);
+  }
+}
+
+// ========== TRANSACTIONS ==========
+
+// Returns the new document, or undefined to delete it
+interface Write {
+  path: string;
+  apply(current: Data | undefined): Data | undefined;
+}
+
+export class FakeTransaction {
+  readonly versions = new Map<string, number>();
+  readonly writes: Write[] = [];
+
+  constructor(private readonly store: FakeFirestore) {}
+
+  async get(ref: FakeDocumentReference): Promise<FakeDocumentSnapshot> {
+    // Same rule as Firestore: every read comes before the first write
+    if (this.writes.length > 0) throw new Error("Firestore transactions require all reads to be executed before all writes.");
+    this.versions.set(ref.path, this.store.version(ref.path));
+    return this.store.snapshot(ref);
+  }
+
+  set(ref: FakeDocumentReference, data: Data, options?: { merge?: boolean }): this {
+    const fields = !ref.converter ? data : options ? ref.converter.toFirestore(data, options) : ref.converter.toFirestore(data);
+    this.writes.push({
+      path: ref.path,
+      apply: (current) => mergeData(options?.merge ? current ?? {} : {}, fields),
+    });
+    return this;
+  }
+
+  create(ref: FakeDocumentReference, data: Data): this {
+    const fields = ref.converter ? ref.converter.toFirestore(data) : data;
+    this.writes.push({
+      path: ref.path,
+      apply: (current) => {
+        if (current) throw new Error(`6 ALREADY_EXISTS: Document already exists: ${ref.path}`);
+        return mergeData({}, fields);
+      },
+    });
+    return this;
+  }
+
+  update(ref: FakeDocumentReference, data: Data): this {
+    this.writes.push({
+      path: ref.path,
+      apply: (current) => {
+        if (!current) throw new Error(`5 NOT_FOUND: No document to update: ${ref.path}`);
+        return updateData(current, data);
+      },
+    });
+    return this;
+  }
+
+  delete(ref: FakeDocumentReference): this {
+    this.writes.push({ path: ref.path, apply: () => undefined });
+    return this;
+  }
+}
+
+export class FakeFirestore {
+  private documents = new Map<string, Data>();
+  private versions = new Map<string, number>();
+
+  collection(name: string): FakeCollectionReference {
+    return new FakeCollectionReference(this, name);
+  }
+
+  doc(path: string): FakeDocumentReference {
+    return new FakeDocumentReference(this, path);
+  }
+
+  async runTransaction<T>(update: (tx: FakeTransaction) => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const tx = new FakeTransaction(this);
+      const result = await update(tx);
+      const stale = Array.from(tx.versions).some(([path, version]) => this.version(path) !== version);
+      if (stale) {
+        if (attempt < MAX_ATTEMPTS) continue;
+        throw new Error("10 ABORTED: Too much contention on these documents.");
+      }
+      this.commit(tx.writes);
+      return result;
+    }
+  }
+
+  snapshot(ref: FakeDocumentReference): FakeDocumentSnapshot {
+    return new FakeDocumentSnapshot(ref, this.documents.get(ref.path));
+  }
+
+  version(path: string): number {
+    return this.versions.get(path) ?? 0;
+  }
+
+  // Test setup and assertions, by document path ("products/robe")
+  seed(path: string, data: Data): void {
+    this.commit([{ path, apply: () => clone(data) }]);
+  }
+
+  read(path: string): Data | undefined {
+    return clone(this.documents.get(path));
+  }
+
+  list(collectionPath: string): Data[] {
+    const prefix = `${collectionPath}/`;
+    return Array.from(this.documents)
+      .filter(([path]) => path.startsWith(prefix) && !path.slice(prefix.length).includes("/"))
+      .map(([path, data]) => ({ ...clone(data), id: path.slice(prefix.length) }));
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.versions.clear();
+  }
+
+  // All or nothing, like a transaction commit
+  private commit(writes: Write[]): void {
+    const documents = new Map(this.documents);
+    for (const { path, apply } of writes) {
+      const data = apply(clone(documents.get(path)));
+      if (data) documents.set(path, data);
+      else documents.delete(path);
+    }
+    for (const { path } of writes) this.versions.set(path, this.version(path) + 1);
+    this.documents = documents;
+  }
+}
+
+export const firestore = new FakeFirestore();
+
+// Module shape of server/firebase.ts
+export const firebaseModule = {
+  db: firestore,
+  Timestamp,
+  FieldValue,
+  FieldPath,
+  adminAuth: {},
+};
@@ -0,0 +1,57 @@
+import { orderSchema, productSchema, type Order, type Product } from "@shared/types";
+import type { MemoryRepositories } from "../repositories";
+import { firestore } from "./firestore";
+
+/**
+ * Test fixtures shared by the server tests
+ * Orders and products are stored twice: in the memory repositories, where the
+ * lookups (webhooks, expiry sweep, chatbot) find them, and in the Firestore
+ * fake, where the reservation transactions read and write them.
+ */
+
+export const VENDOR = "vendor-1";
+export const CUSTOMER = "221771234567";
+
+export function makeOrder(id: string, fields: Partial<Order> = {}): Order {
+  return orderSchema.parse({
+    id,
+    vendorId: VENDOR,
+    productId: "robe",
+    productName: "Robe wax",
+    clientPhone: CUSTOMER,
+    quantity: 1,
+    unitPrice: 10000,
+    totalAmount: 10000,
+    status: "reserved",
+    stockReserved: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...fields,
+  });
+}
+
+export function makeProduct(id: string, fields: Partial<Product> = {}): Product {
+  return productSchema.parse({
+    id,
+    vendorId: VENDOR,
+    keyword: id.toUpperCase(),
+    name: "Robe wax",
+    price: 10000,
+    stock: 5,
+    ...fields,
+  });
+}
+
+export function addOrder(repositories: MemoryRepositories, order: Order): Order {
+  const { id, ...data } = order;
+  repositories.orders.items.set(id, order);
+  firestore.seed(`orders/${id}`, data);
+  return order;
+}
+
+export function addProduct(repositories: MemoryRepositories, product: Product): Product {
+  const { id, ...data } = product;
+  repositories.products.items.set(id, product);
+  firestore.seed(`products/${id}`, data);
+  return product;
+}
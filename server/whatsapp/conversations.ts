@@ -0,0 +1,86 @@
+import { getRepositories, conversationId } from "../repositories";
+import type { Conversation, ConversationStep } from "@shared/types";
+
+/**
+ * Chatbot conversation state, one document per (vendor, customer phone)
+ * Stored in Firestore so an order in progress survives server restarts.
+ */
+
+// Conversations idle for longer than this start over from the keyword step
+export const CONVERSATION_TIMEOUT_MINUTES = 15;
+
+type ConversationUpdate = {
+  step: ConversationStep;
+  quantity?: number;
+  deliveryAddress?: string;
+};
+
+/**
+ * Returns the customer's conversation, or null when there is none
+ * or it timed out (the customer has to send a keyword again).
+ */
+export async function getConversation(vendorId: string, clientPhone: string): Promise<Conversation | null> {
+  const conversation = await getRepositories().conversations.get(vendorId, clientPhone);
+  if (!conversation) return null;
+
+  if (conversation.step === "idle" || conversation.expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+  return conversation;
+}
+
+function activityTimestamps() {
+  const now = new Date();
+  return {
+    lastActivityAt: now,
+    expiresAt: new Date(now.getTime() + CONVERSATION_TIMEOUT_MINUTES * 60 * 1000),
+  };
+}
+
+/**
+ * Starts an order for a product (keyword received). Replaces whatever
+ * order was in progress, so a customer can switch products halfway.
+ */
+export async function startConversation(
+  vendorId: string,
+  clientPhone: string,
+  data: { step: ConversationStep; productId: string; clientName?: string }
+): Promise<void> {
+  await getRepositories().conversations.save({
+    id: conversationId(vendorId, clientPhone),
+    vendorId,
+    clientPhone,
+    clientName: data.clientName,
+    step: data.step,
+    productId: data.productId,
+    quantity: 1,
+    ...activityTimestamps(),
+    createdAt: new Date(),
+  });
+}
+
+// Moves the current order to its next step
+export async function updateConversation(
+  vendorId: string,
+  clientPhone: string,
+  update: ConversationUpdate
+): Promise<void> {
+  await getRepositories().conversations.update(vendorId, clientPhone, {
+    ...update,
+    ...activityTimestamps(),
+  });
+}
+
+// Back to the keyword step, dropping the pending product
+export async function resetConversation(vendorId: string, clientPhone: string): Promise<void> {
+  const now = new Date();
+  await getRepositories().conversations.save({
+    id: conversationId(vendorId, clientPhone),
+    vendorId,
+    clientPhone,
+    step: "idle",
+    lastActivityAt: now,
+    expiresAt: now,
+    createdAt: now,
+  });
+}
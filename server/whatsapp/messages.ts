@@ -0,0 +1,119 @@
+import type { ChatbotAction, OutboundMessage } from "./types";
+
+/**
+ * Outbound message builders (Cloud API payloads) and reply id encoding
+ * Buttons and list rows carry an id that comes back in
+ * interactive.button_reply / list_reply and is parsed into a ChatbotAction.
+ * Limits: https://developers.facebook.com/docs/whatsapp/cloud-api/messages/interactive-reply-buttons-messages
+ */
+
+const MAX_BUTTONS = 3;
+const MAX_BUTTON_TITLE = 20;
+const MAX_LIST_ROWS = 10;
+const MAX_ROW_TITLE = 24;
+const MAX_ROW_DESCRIPTION = 72;
+const MAX_BODY = 1024;
+
+export interface ReplyButton {
+  id: string;
+  title: string;
+}
+
+export interface ListRow {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max - 1) + "…" : text;
+}
+
+// ========== BUILDERS ==========
+
+export function textMessage(to: string, body: string): OutboundMessage {
+  return {
+    messaging_product: "whatsapp",
+    to,
+    type: "text",
+    text: { body, preview_url: true },
+  };
+}
+
+export function buttonMessage(
+  to: string,
+  params: { body: string; buttons: ReplyButton[]; imageUrl?: string; footer?: string }
+): OutboundMessage {
+  return {
+    messaging_product: "whatsapp",
+    to,
+    type: "interactive",
+    interactive: {
+      type: "button",
+      ...(params.imageUrl && { header: { type: "image", image: { link: params.imageUrl } } }),
+      body: { text: truncate(params.body, MAX_BODY) },
+      ...(params.footer && { footer: { text: params.footer } }),
+      action: {
+        buttons: params.buttons.slice(0, MAX_BUTTONS).map((b) => ({
+          type: "reply",
+          reply: { id: b.id, title: truncate(b.title, MAX_BUTTON_TITLE) },
+        })),
+      },
+    },
+  };
+}
+
+export function listMessage(
+  to: string,
+  params: { body: string; buttonText: string; sectionTitle: string; rows: ListRow[] }
+): OutboundMessage {
+  return {
+    messaging_product: "whatsapp",
+    to,
+    type: "interactive",
+    interactive: {
+      type: "list",
+      body: { text: truncate(params.body, MAX_BODY) },
+      action: {
+        button: truncate(params.buttonText, MAX_BUTTON_TITLE),
+        sections: [
+          {
+            title: truncate(params.sectionTitle, MAX_ROW_TITLE),
+            rows: params.rows.slice(0, MAX_LIST_ROWS).map((r) => ({
+              id: r.id,
+              title: truncate(r.title, MAX_ROW_TITLE),
+              ...(r.description && { description: truncate(r.description, MAX_ROW_DESCRIPTION) }),
+            })),
+          },
+        ],
+      },
+    },
+  };
+}
+
+// ========== REPLY IDS ==========
+
+export const replyIds = {
+  product: (productId: string) => `product:${productId}`,
+  quantity: (quantity: number) => `qty:${quantity}`,
+  confirm: () => "confirm",
+  cancel: () => "cancel",
+};
+
+export function parseReplyId(id: string): ChatbotAction | null {
+  const [kind, value] = id.split(":", 2);
+  switch (kind) {
+    case "product":
+      return value ? { type: "select_product", productId: value } : null;
+    case "qty": {
+      const quantity = parseInt(value, 10);
+      return Number.isInteger(quantity) && quantity > 0 ? { type: "select_quantity", quantity } : null;
+    }
+    case "confirm":
+      return { type: "confirm" };
+    case "cancel":
+      return { type: "cancel" };
+    default:
+      return null;
+  }
+}
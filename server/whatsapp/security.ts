@@ -0,0 +1,48 @@
+import crypto from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import { getRepositories } from "../repositories";
+
+/**
+ * Webhook authenticity checks
+ * - POST: Meta signs the raw body with the app secret (X-Hub-Signature-256)
+ * - GET: subscription handshake with a vendor's verify token (vendorSecrets)
+ */
+
+const SIGNATURE_PREFIX = "sha256=";
+
+export function isValidSignature(rawBody: Buffer, signature: string, appSecret: string): boolean {
+  if (!signature.startsWith(SIGNATURE_PREFIX)) return false;
+
+  const expected = crypto.createHmac("sha256", appSecret).update(rawBody).digest();
+  const received = Buffer.from(signature.slice(SIGNATURE_PREFIX.length), "hex");
+
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+// Must run before any handler reads req.body; relies on rawBody captured in server/index.ts
+export function verifyWhatsAppSignature(req: Request, res: Response, next: NextFunction) {
+  const appSecret = process.env.WHATSAPP_APP_SECRET;
+  if (!appSecret) {
+    console.error("[WhatsApp Webhook] WHATSAPP_APP_SECRET is not set, rejecting payload");
+    return res.sendStatus(500);
+  }
+
+  const signature = req.get("x-hub-signature-256");
+  const rawBody = req.rawBody;
+  if (!signature || !Buffer.isBuffer(rawBody) || !isValidSignature(rawBody, signature, appSecret)) {
+    console.warn("[WhatsApp Webhook] Invalid signature, payload rejected");
+    return res.sendStatus(401);
+  }
+
+  next();
+}
+
+export async function isKnownVerifyToken(token: string): Promise<boolean> {
+  if (!token) return false;
+
+  // Optional deployment-wide token, no built-in default
+  const globalToken = process.env.WHATSAPP_VERIFY_TOKEN;
+  if (globalToken && token === globalToken) return true;
+
+  return getRepositories().vendorSecrets.hasVerifyToken(token);
+}
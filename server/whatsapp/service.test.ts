@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { vendorConfigSchema } from "@shared/types";
+import { createMemoryRepositories, setRepositories, type MemoryRepositories } from "../repositories";
+import { firestore } from "../testing/firestore";
+import { addProduct, CUSTOMER, makeProduct, VENDOR } from "../testing/fixtures";
+import { processIncomingMessage } from "./service";
+import { replyIds } from "./messages";
+import type { IncomingMessage, OutboundMessage } from "./types";
+
+vi.mock("../firebase", async () => (await import("../testing/firestore")).firebaseModule);
+vi.mock("../stats", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../stats")>()),
+  recordKeywordHit: vi.fn(async () => {}),
+}));
+
+const PHONE_NUMBER_ID = "pn-1";
+
+let repositories: MemoryRepositories;
+let sent: OutboundMessage[];
+
+function message(text: string, action?: IncomingMessage["action"]): IncomingMessage {
+  return { messageId: `m-${Math.random()}`, phoneNumberId: PHONE_NUMBER_ID, from: CUSTOMER, customerName: "Awa", text, action };
+}
+
+function lastText(): string {
+  const last = sent[sent.length - 1];
+  return last.text?.body ?? JSON.stringify(last.interactive);
+}
+
+beforeEach(async () => {
+  firestore.clear();
+  repositories = createMemoryRepositories();
+  setRepositories(repositories);
+
+  const config = vendorConfigSchema.parse({
+    id: "config-1",
+    vendorId: VENDOR,
+    businessName: "Boutique Awa",
+    liveMode: true,
+  });
+  repositories.vendorConfigs.items.set(config.id, config);
+  await repositories.vendorConfigs.setPhoneNumberId(VENDOR, PHONE_NUMBER_ID);
+  await repositories.vendorSecrets.update(VENDOR, { whatsappAccessToken: "token" });
+  addProduct(repositories, makeProduct("robe", { keyword: "ROBE1", stock: 5 }));
+
+  sent = [];
+  vi.stubGlobal("fetch", vi.fn(async (_url: string, init: RequestInit) => {
+    sent.push(JSON.parse(String(init.body)));
+    return new Response("{}", { status: 200 });
+  }));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("chatbot reservation flow", () => {
+  it("goes from keyword to quantity to confirmation and reserves the stock", async () => {
+    await processIncomingMessage(message("robe1"));
+    expect(lastText()).toContain("Robe wax");
+    expect((await repositories.conversations.get(VENDOR, CUSTOMER))?.step).toBe("awaiting_quantity");
+
+    await processIncomingMessage(message("2", { type: "select_quantity", quantity: 2 }));
+    expect((await repositories.conversations.get(VENDOR, CUSTOMER))?.step).toBe("awaiting_confirmation");
+
+    await processIncomingMessage(message("Confirmer", { type: "confirm" }));
+    const [order] = firestore.list("orders");
+    expect(order).toMatchObject({
+      vendorId: VENDOR,
+      productId: "robe",
+      quantity: 2,
+      totalAmount: 20000,
+      clientPhone: CUSTOMER,
+      clientName: "Awa",
+      status: "reserved",
+    });
+    expect(firestore.read("products/robe")).toMatchObject({ reservedStock: 2 });
+    expect(lastText()).toContain(String(order.paymentUrl));
+    expect((await repositories.conversations.get(VENDOR, CUSTOMER))?.step).toBe("idle");
+  });
+
+  it("reserves once when WhatsApp delivers the confirmation twice", async () => {
+    await processIncomingMessage(message("ROBE1"));
+    await processIncomingMessage(message("1", { type: "select_quantity", quantity: 1 }));
+    const confirmation = message("Confirmer", { type: "confirm" });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await Promise.all([processIncomingMessage(confirmation), processIncomingMessage(confirmation)]);
+    expect(firestore.list("orders")).toHaveLength(1);
+    expect(firestore.read("products/robe")).toMatchObject({ reservedStock: 1 });
+    expect(sent.filter((sentMessage) => sentMessage.text?.body.includes("/pay/"))).toHaveLength(1);
+  });
+
+  it("refuses quantities above the available stock", async () => {
+    await processIncomingMessage(message("ROBE1"));
+    await processIncomingMessage(message("9"));
+    expect((await repositories.conversations.get(VENDOR, CUSTOMER))?.step).toBe("awaiting_quantity");
+    expect(firestore.list("orders")).toHaveLength(0);
+  });
+
+  it("tells the customer when the stock ran out in between", async () => {
+    await processIncomingMessage(message("ROBE1"));
+    await processIncomingMessage(message("1", { type: "select_quantity", quantity: 1 }));
+    firestore.seed("products/robe", { ...firestore.read("products/robe"), reservedStock: 5 });
+    await processIncomingMessage(message("oui"));
+    expect(lastText()).toContain("rupture de stock");
+  });
+
+  it("drops messages for an unknown business number", async () => {
+    await processIncomingMessage({ ...message("ROBE1"), phoneNumberId: "other" });
+    expect(sent).toHaveLength(0);
+  });
+
+  it("keeps routing a number to the vendor that connected it first", async () => {
+    const rival = vendorConfigSchema.parse({
+      id: "config-2",
+      vendorId: "vendor-2",
+      businessName: "Boutique Rivale",
+      whatsappPhoneNumberId: PHONE_NUMBER_ID,
+    });
+    repositories.vendorConfigs.items.set(rival.id, rival);
+    expect(await repositories.vendorConfigs.setPhoneNumberId("vendor-2", PHONE_NUMBER_ID)).toBe("taken");
+
+    await processIncomingMessage(message("ROBE1"));
+    expect((await repositories.conversations.get(VENDOR, CUSTOMER))?.step).toBe("awaiting_quantity");
+    expect(await repositories.conversations.get("vendor-2", CUSTOMER)).toBeNull();
+  });
+
+  it("frees the previous number when the vendor changes it", async () => {
+    await repositories.vendorConfigs.setPhoneNumberId(VENDOR, "98765");
+    await processIncomingMessage(message("ROBE1"));
+    expect(sent).toHaveLength(0);
+
+    const other = vendorConfigSchema.parse({ id: "config-2", vendorId: "vendor-2", businessName: "Boutique Fatou" });
+    repositories.vendorConfigs.items.set(other.id, other);
+    expect(await repositories.vendorConfigs.setPhoneNumberId("vendor-2", PHONE_NUMBER_ID)).toBe("claimed");
+  });
+
+  it("cancels the order in progress on request", async () => {
+    await processIncomingMessage(message("ROBE1"));
+    await processIncomingMessage(message("1", { type: "select_quantity", quantity: 1 }));
+    await processIncomingMessage(message(replyIds.cancel(), { type: "cancel" }));
+    expect((await repositories.conversations.get(VENDOR, CUSTOMER))?.step).toBe("idle");
+    expect(firestore.list("orders")).toHaveLength(0);
+  });
+});
@@ -0,0 +1,441 @@
+import { getRepositories } from "../repositories";
+import { recordKeywordHit } from "../stats";
+import { reserveStock, availableStock, ReservationError, type Reservation } from "../reservations";
+import type { Conversation, LiveSession, Product, VendorConfig } from "@shared/types";
+import { liveOffer, nowShowing } from "@shared/live-lineup";
+import { formatPrice } from "@shared/format";
+import type { IncomingMessage, OutboundMessage } from "./types";
+import * as templates from "./templates";
+import { textMessage, buttonMessage, listMessage, replyIds } from "./messages";
+import {
+  getConversation,
+  startConversation,
+  updateConversation,
+  resetConversation,
+} from "./conversations";
+
+/**
+ * WhatsApp chatbot service
+ * Flow: keyword → product info → quantity → delivery address (optional)
+ *       → confirmation → stock reservation → payment link
+ * Conversation state is persisted per customer in server/whatsapp/conversations.ts
+ * During a live session, products are quoted at the lineup's flash price.
+ */
+
+const GRAPH_API_URL = "https://graph.facebook.com/v21.0";
+
+const YES_ANSWERS = ["oui", "o", "yes", "ok", "confirmer", "je confirme"];
+const NO_ANSWERS = ["non", "n", "no", "annuler"];
+
+// Shortest text accepted as a delivery address
+const MIN_ADDRESS_LENGTH = 5;
+
+// Quantity buttons offered (WhatsApp allows 3); larger amounts are typed
+const QUANTITY_BUTTONS = [1, 2, 3];
+
+// ========== ENTRY POINT ==========
+
+export async function processIncomingMessage(message: IncomingMessage): Promise<void> {
+  const config = await getVendorConfigByPhoneNumberId(message.phoneNumberId);
+  if (!config) {
+    console.warn(`[WhatsApp] Unknown phone_number_id ${message.phoneNumberId}, message dropped`);
+    return;
+  }
+
+  if (!config.autoReplyEnabled || config.status !== "active") return;
+
+  const text = message.text.trim();
+  if (!text) return;
+
+  if (!config.liveMode) {
+    await sendTextMessage(config, message.from, templates.liveClosed(config.businessName));
+    return;
+  }
+
+  // A keyword (or a product picked from the list) always (re)starts the flow,
+  // even halfway through another order
+  let product: Product | null = null;
+  if (message.action?.type === "select_product") {
+    product = await getProductById(message.action.productId);
+  } else if (!message.action) {
+    product = await findProductByKeyword(config.vendorId, text);
+  }
+  if (product && product.vendorId === config.vendorId && product.active) {
+    // Funnel top for analytics; never blocks the reply
+    const productId = product.id;
+    recordKeywordHit(config.vendorId, productId).catch((error) => {
+      console.error(`[Stats] Keyword hit for ${productId} not recorded:`, error);
+    });
+    await handleProductKeyword(config, message, product);
+    return;
+  }
+
+  const conversation = await getConversation(config.vendorId, message.from);
+  if (!conversation || !conversation.productId) {
+    await sendProductPicker(config, message.from);
+    return;
+  }
+
+  switch (conversation.step) {
+    case "awaiting_quantity":
+      await handleQuantitySelection(config, message, conversation);
+      break;
+    case "awaiting_address":
+      await handleDeliveryAddress(config, message, conversation);
+      break;
+    case "awaiting_confirmation":
+      await handleConfirmation(config, message, conversation);
+      break;
+  }
+}
+
+// ========== FLOW STEPS ==========
+
+export async function handleProductKeyword(
+  config: VendorConfig,
+  message: IncomingMessage,
+  product: Product
+): Promise<void> {
+  const available = availableStock(product);
+
+  if (available <= 0) {
+    await resetConversation(config.vendorId, message.from);
+    await sendTextMessage(config, message.from, templates.outOfStock(product.name));
+    return;
+  }
+
+  const askQuantity = config.allowQuantitySelection && available > 1;
+  const askAddress = !askQuantity && config.requireDeliveryAddress;
+  await startConversation(config.vendorId, message.from, {
+    step: askQuantity ? "awaiting_quantity" : askAddress ? "awaiting_address" : "awaiting_confirmation",
+    productId: product.id,
+    clientName: message.customerName,
+  });
+
+  const body = templates.productInfo({
+    name: product.name,
+    price: product.price,
+    available,
+    description: product.description,
+    askQuantity,
+    askAddress,
+  });
+
+  if (askAddress) {
+    // Addresses are typed, so there is nothing to tap here
+    await sendMessage(config, textMessage(message.from, body));
+    return;
+  }
+
+  const buttons = askQuantity
+    ? QUANTITY_BUTTONS.filter((q) => q <= available).map((q) => ({
+        id: replyIds.quantity(q),
+        title: String(q),
+      }))
+    : [
+        { id: replyIds.confirm(), title: "Commander" },
+        { id: replyIds.cancel(), title: "Annuler" },
+      ];
+
+  await sendMessage(
+    config,
+    buttonMessage(message.from, { body, buttons, imageUrl: product.imageUrl })
+  );
+}
+
+export async function handleQuantitySelection(
+  config: VendorConfig,
+  message: IncomingMessage,
+  conversation: Conversation
+): Promise<void> {
+  const product = await getProductById(conversation.productId!);
+  if (!product || !product.active) {
+    await resetConversation(config.vendorId, message.from);
+    await sendTextMessage(config, message.from, templates.unknownKeyword());
+    return;
+  }
+
+  const available = availableStock(product);
+  const quantity = message.action?.type === "select_quantity"
+    ? message.action.quantity
+    : parseInt(message.text.trim(), 10);
+
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > available) {
+    await sendTextMessage(config, message.from, templates.invalidQuantity(Math.max(available, 1)));
+    return;
+  }
+
+  if (config.requireDeliveryAddress) {
+    await updateConversation(config.vendorId, message.from, { step: "awaiting_address", quantity });
+    await sendTextMessage(config, message.from, templates.askDeliveryAddress());
+    return;
+  }
+
+  await updateConversation(config.vendorId, message.from, { step: "awaiting_confirmation", quantity });
+  await sendOrderSummary(config, message.from, product, quantity);
+}
+
+export async function handleDeliveryAddress(
+  config: VendorConfig,
+  message: IncomingMessage,
+  conversation: Conversation
+): Promise<void> {
+  const deliveryAddress = message.text.trim();
+  if (deliveryAddress.length < MIN_ADDRESS_LENGTH) {
+    await sendTextMessage(config, message.from, templates.askDeliveryAddress());
+    return;
+  }
+
+  const product = await getProductById(conversation.productId!);
+  if (!product || !product.active) {
+    await resetConversation(config.vendorId, message.from);
+    await sendTextMessage(config, message.from, templates.unknownKeyword());
+    return;
+  }
+
+  const quantity = conversation.quantity || 1;
+  await updateConversation(config.vendorId, message.from, {
+    step: "awaiting_confirmation",
+    deliveryAddress,
+  });
+  await sendOrderSummary(config, message.from, product, quantity, deliveryAddress);
+}
+
+async function handleConfirmation(
+  config: VendorConfig,
+  message: IncomingMessage,
+  conversation: Conversation
+): Promise<void> {
+  const answer = message.text.trim().toLowerCase();
+  const quantity = conversation.quantity || 1;
+  const confirmed = message.action?.type === "confirm" || (!message.action && YES_ANSWERS.includes(answer));
+  const cancelled = message.action?.type === "cancel" || (!message.action && NO_ANSWERS.includes(answer));
+
+  if (cancelled) {
+    await resetConversation(config.vendorId, message.from);
+    await sendTextMessage(config, message.from, templates.orderCancelled());
+    return;
+  }
+
+  if (!confirmed) {
+    const product = await getProductById(conversation.productId!);
+    if (product) {
+      await sendOrderSummary(config, message.from, product, quantity, conversation.deliveryAddress);
+    }
+    return;
+  }
+
+  await resetConversation(config.vendorId, message.from);
+  await confirmOrder(config, message, {
+    productId: conversation.productId!,
+    quantity,
+    clientName: conversation.clientName || message.customerName,
+    deliveryAddress: conversation.deliveryAddress,
+  });
+}
+
+async function sendOrderSummary(
+  config: VendorConfig,
+  to: string,
+  product: Product,
+  quantity: number,
+  deliveryAddress?: string
+): Promise<void> {
+  await sendMessage(
+    config,
+    buttonMessage(to, {
+      body: templates.orderSummary({
+        name: product.name,
+        quantity,
+        total: product.price * quantity,
+        deliveryAddress,
+      }),
+      buttons: [
+        { id: replyIds.confirm(), title: "Confirmer" },
+        { id: replyIds.cancel(), title: "Annuler" },
+      ],
+    })
+  );
+}
+
+// Lets the customer pick among the vendor's in-stock products
+async function sendProductPicker(config: VendorConfig, to: string): Promise<void> {
+  const products = (await getActiveProducts(config.vendorId)).filter(
+    (p) => availableStock(p) > 0
+  );
+
+  if (products.length === 0) {
+    await sendTextMessage(config, to, templates.unknownKeyword());
+    return;
+  }
+
+  await sendMessage(
+    config,
+    listMessage(to, {
+      body: templates.productPicker(),
+      buttonText: "Voir les produits",
+      sectionTitle: "Produits",
+      rows: products.map((p) => ({
+        id: replyIds.product(p.id),
+        title: p.name,
+        description: `${p.keyword} · ${formatPrice(p.price)}`,
+      })),
+    })
+  );
+}
+
+// Reserves stock, creates the order and sends the payment link
+export async function confirmOrder(
+  config: VendorConfig,
+  message: IncomingMessage,
+  pending: { productId: string; quantity: number; clientName?: string; deliveryAddress?: string }
+): Promise<void> {
+  const reservationMinutes = config.reservationDurationMinutes || 10;
+  const session = await getRepositories().liveSessions.getActive(config.vendorId);
+
+  let reservation: Reservation;
+  try {
+    reservation = await reserveStock({
+      vendorId: config.vendorId,
+      sessionId: session?.id,
+      productId: pending.productId,
+      quantity: pending.quantity,
+      clientPhone: message.from,
+      clientName: pending.clientName,
+      deliveryAddress: pending.deliveryAddress,
+      minTrustScore: config.minTrustScoreRequired,
+      reservationMinutes,
+      actor: { type: "customer", id: message.from },
+      messageId: message.messageId,
+    });
+  } catch (error) {
+    if (error instanceof ReservationError && error.code === "duplicate_request") {
+      console.warn(`[WhatsApp] Message ${message.messageId} already processed, dropped`);
+      return;
+    }
+    if (error instanceof ReservationError) {
+      const reply = error.code === "low_trust"
+        ? templates.reservationRefused(config.businessName)
+        : templates.outOfStock(error.productName || "Ce produit");
+      await sendTextMessage(config, message.from, reply);
+      return;
+    }
+    throw error;
+  }
+
+  console.log(`[WhatsApp] Order ${reservation.orderId} reserved for ${message.from}`);
+
+  await sendTextMessage(
+    config,
+    message.from,
+    templates.orderCreated({
+      total: reservation.totalAmount,
+      minutes: reservationMinutes,
+      paymentUrl: reservation.paymentUrl,
+    })
+  );
+}
+
+// Sent once the PSP webhook confirmed the payment (server/payments/events.ts)
+export async function notifyPaymentReceived(orderId: string): Promise<void> {
+  const { orders, vendorConfigs } = getRepositories();
+  const order = await orders.getById(orderId);
+  if (!order) return;
+
+  const config = await vendorConfigs.getByVendorId(order.vendorId);
+  if (!config) return;
+
+  await sendTextMessage(
+    config,
+    order.clientPhone,
+    templates.paymentConfirmed({
+      reference: orderId.slice(-6).toUpperCase(),
+      productName: order.productName || "Commande",
+      total: order.totalAmount,
+    })
+  );
+}
+
+// ========== DATA ACCESS ==========
+
+// Each vendor connects its own WhatsApp Business number (phoneNumberIds mapping)
+export async function getVendorConfigByPhoneNumberId(phoneNumberId: string): Promise<VendorConfig | null> {
+  return getRepositories().vendorConfigs.getByPhoneNumberId(phoneNumberId);
+}
+
+async function findProductByKeyword(vendorId: string, text: string): Promise<Product | null> {
+  const keyword = text.toUpperCase();
+  // Keywords are single tokens (ROBE1); skip the lookup for sentences and numbers
+  if (/\s/.test(keyword) || /^\d+$/.test(keyword)) return null;
+
+  const product = await getRepositories().products.findActiveByKeyword(vendorId, keyword);
+  return product && withLiveOffer(product, await getActiveSession(vendorId));
+}
+
+async function getActiveProducts(vendorId: string): Promise<Product[]> {
+  // A list message shows at most 10 rows
+  const [products, session] = await Promise.all([
+    getRepositories().products.listActive(vendorId, 10),
+    getActiveSession(vendorId),
+  ]);
+  // The product being shown on the live comes first
+  const showing = session && nowShowing(session);
+  return products
+    .map((p) => withLiveOffer(p, session))
+    .sort((a, b) => Number(b.id === showing?.productId) - Number(a.id === showing?.productId));
+}
+
+async function getProductById(productId: string): Promise<Product | null> {
+  const product = await getRepositories().products.getById(productId);
+  return product && withLiveOffer(product, await getActiveSession(product.vendorId));
+}
+
+async function getActiveSession(vendorId: string): Promise<LiveSession | null> {
+  return getRepositories().liveSessions.getActive(vendorId);
+}
+
+// Quotes the live price and caps the availability at what is left for the session.
+// Display copy only: reserveStock() re-checks the offer in its transaction.
+function withLiveOffer(product: Product, session: LiveSession | null): Product {
+  const offer = liveOffer(session, product);
+  if (!offer) return product;
+
+  const stock = offer.remaining === null
+    ? product.stock
+    : Math.min(product.stock, (product.reservedStock || 0) + offer.remaining);
+  return { ...product, price: offer.price, stock };
+}
+
+// ========== OUTBOUND ==========
+
+// Replies go out through the vendor's own number and access token
+export async function sendMessage(config: VendorConfig, message: OutboundMessage): Promise<void> {
+  const phoneNumberId = config.whatsappPhoneNumberId;
+  const accessToken = phoneNumberId && (await getRepositories().vendorSecrets.getWhatsAppAccessToken(config.vendorId));
+  if (!phoneNumberId || !accessToken) {
+    console.warn(`[WhatsApp] Vendor ${config.vendorId} has no WhatsApp credentials, reply not sent`);
+    return;
+  }
+
+  const res = await fetch(`${GRAPH_API_URL}/${phoneNumberId}/messages`, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(message),
+  });
+
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`WhatsApp send failed ${res.status}: ${text}`);
+  }
+}
+
+export async function sendTextMessage(
+  config: VendorConfig,
+  to: string,
+  body: string
+): Promise<void> {
+  await sendMessage(config, textMessage(to, body));
+}
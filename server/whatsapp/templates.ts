@@ -0,0 +1,108 @@
+import { formatPrice } from "@shared/format";
+
+/**
+ * Chatbot message templates (French, FCFA)
+ * Plain text bodies sent back to WhatsApp customers.
+ */
+
+export function productInfo(params: {
+  name: string;
+  price: number;
+  available: number;
+  description?: string;
+  askQuantity: boolean;
+  askAddress?: boolean;
+}): string {
+  const lines = [
+    `🛍️ *${params.name}*`,
+    `💰 Prix: ${formatPrice(params.price)}`,
+    `📦 Stock: ${params.available}`,
+  ];
+  if (params.description) {
+    lines.push("", params.description);
+  }
+  lines.push(
+    "",
+    params.askQuantity
+      ? `Combien en voulez-vous ? Choisissez ou tapez un nombre (1 à ${params.available}).`
+      : params.askAddress
+        ? "📍 Pour commander, envoyez votre adresse de livraison."
+        : "Appuyez sur *Commander* (ou répondez *OUI*)."
+  );
+  return lines.join("\n");
+}
+
+export function orderSummary(params: {
+  name: string;
+  quantity: number;
+  total: number;
+  deliveryAddress?: string;
+}): string {
+  const lines = [
+    "📝 *Récapitulatif*",
+    `${params.name} x${params.quantity}`,
+    `Total: *${formatPrice(params.total)}*`,
+  ];
+  if (params.deliveryAddress) {
+    lines.push(`📍 Livraison: ${params.deliveryAddress}`);
+  }
+  lines.push("", "Appuyez sur *Confirmer* (ou répondez *OUI*).");
+  return lines.join("\n");
+}
+
+export function askDeliveryAddress(): string {
+  return "📍 Merci d'envoyer votre adresse de livraison (quartier, rue, point de repère).";
+}
+
+export function orderCreated(params: {
+  total: number;
+  minutes: number;
+  paymentUrl: string;
+}): string {
+  return [
+    "✅ *Commande créée!*",
+    `Montant: ${formatPrice(params.total)}`,
+    `Vous avez ${params.minutes} min pour payer.`,
+    "",
+    `👇 Cliquez ici pour payer:`,
+    params.paymentUrl,
+  ].join("\n");
+}
+
+export function invalidQuantity(max: number): string {
+  return `Merci d'indiquer une quantité entre 1 et ${max}.`;
+}
+
+export function outOfStock(name: string): string {
+  return `😔 Désolé, *${name}* est en rupture de stock.`;
+}
+
+export function reservationRefused(businessName: string): string {
+  return `😔 Désolé, nous ne pouvons pas réserver cet article automatiquement. Contactez *${businessName}* directement pour commander.`;
+}
+
+export function productPicker(): string {
+  return "Je n'ai pas reconnu ce mot-clé. Choisissez un produit dans la liste 👇";
+}
+
+export function unknownKeyword(): string {
+  return "Je n'ai pas trouvé ce produit. Vérifiez le mot-clé affiché pendant le live (ex: ROBE1).";
+}
+
+export function liveClosed(businessName: string): string {
+  return `👋 Merci de votre message! ${businessName} n'est pas en live pour le moment. Revenez pendant le prochain live pour commander.`;
+}
+
+export function orderCancelled(): string {
+  return "❌ Commande annulée. Envoyez un mot-clé pour recommencer.";
+}
+
+export function paymentConfirmed(params: { reference: string; productName: string; total: number }): string {
+  return [
+    "✅ *Paiement confirmé!*",
+    `Réf: #${params.reference}`,
+    `${params.productName} - ${formatPrice(params.total)}`,
+    "",
+    "Merci pour votre achat! 🙏",
+  ].join("\n");
+}
@@ -0,0 +1,76 @@
+/**
+ * WhatsApp Cloud API webhook payload types
+ * Only the fields LivePay reads are declared.
+ * See https://developers.facebook.com/docs/whatsapp/cloud-api/webhooks/components
+ */
+
+export interface WhatsAppWebhookBody {
+  object: string;
+  entry?: WhatsAppEntry[];
+}
+
+export interface WhatsAppEntry {
+  id: string;
+  changes?: WhatsAppChange[];
+}
+
+export interface WhatsAppChange {
+  field: string;
+  value?: WhatsAppChangeValue;
+}
+
+export interface WhatsAppChangeValue {
+  messaging_product: "whatsapp";
+  metadata: {
+    display_phone_number: string;
+    phone_number_id: string;
+  };
+  contacts?: WhatsAppContact[];
+  messages?: WhatsAppIncomingMessage[];
+}
+
+export interface WhatsAppContact {
+  wa_id: string;
+  profile?: { name?: string };
+}
+
+export interface WhatsAppIncomingMessage {
+  id: string;
+  from: string;
+  timestamp: string;
+  type: string;
+  text?: { body: string };
+  interactive?: {
+    type: "button_reply" | "list_reply";
+    button_reply?: { id: string; title: string };
+    list_reply?: { id: string; title: string; description?: string };
+  };
+}
+
+// Button / list taps decoded from their reply id (see messages.ts)
+export type ChatbotAction =
+  | { type: "select_product"; productId: string }
+  | { type: "select_quantity"; quantity: number }
+  | { type: "confirm" }
+  | { type: "cancel" };
+
+// Normalized message handed to the chatbot service
+export interface IncomingMessage {
+  messageId: string;
+  // Business number that received the message (value.metadata.phone_number_id)
+  phoneNumberId: string;
+  from: string;
+  customerName?: string;
+  // Typed text, or the tapped button / row title
+  text: string;
+  action?: ChatbotAction;
+}
+
+// Body of POST /{phone-number-id}/messages
+export interface OutboundMessage {
+  messaging_product: "whatsapp";
+  to: string;
+  type: "text" | "interactive";
+  text?: { body: string; preview_url?: boolean };
+  interactive?: Record<string, unknown>;
+}
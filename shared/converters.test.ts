@@ -0,0 +1,137 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  DocumentValidationError,
+  orderStatusChangeConverter,
+  productConverter,
+  readDocument,
+  readDocuments,
+  toFirestoreUpdate,
+} from "./converters";
+
+// Admin / client SDK Timestamps are recognised by their toDate()
+function timestamp(date: Date) {
+  return { toDate: () => date };
+}
+
+// Stands in for an SDK sentinel (FieldValue.increment...)
+class Sentinel {}
+
+function snapshot(id: string, data: Record<string, unknown>) {
+  return { id, data: () => data };
+}
+
+const createdAt = new Date("2024-05-01T10:00:00Z");
+
+describe("createConverter", () => {
+  it("parses Timestamps, defaults and nulls on read", () => {
+    const product = productConverter.fromFirestore(
+      snapshot("p1", {
+        vendorId: "v1",
+        name: "Robe",
+        keyword: "ROBE1",
+        price: 10000,
+        stock: 3,
+        description: null,
+        createdAt: timestamp(createdAt),
+      })
+    );
+    expect(product.id).toBe("p1");
+    expect(product.createdAt).toEqual(createdAt);
+    expect(product.reservedStock).toBe(0);
+    expect(product.description).toBeUndefined();
+  });
+
+  it("rejects a document that breaks the schema", () => {
+    expect(() => productConverter.fromFirestore(snapshot("p1", { vendorId: "v1", price: "cher" }))).toThrow(
+      DocumentValidationError
+    );
+  });
+
+  it("writes without the id and without undefined fields", () => {
+    const data = productConverter.toFirestore({
+      id: "p1",
+      vendorId: "v1",
+      name: "Robe",
+      keyword: "ROBE1",
+      price: 10000,
+      stock: 3,
+      description: undefined,
+      createdAt,
+    });
+    expect(data).not.toHaveProperty("id");
+    expect(data).not.toHaveProperty("description");
+    expect(data.name).toBe("Robe");
+  });
+
+  it("validates writes against the schema", () => {
+    expect(() => productConverter.toFirestore({ vendorId: "v1", name: "Robe", price: -1 })).toThrow(
+      DocumentValidationError
+    );
+  });
+
+  it("passes FieldValue sentinels through untouched", () => {
+    const increment = new Sentinel();
+    const data = productConverter.toFirestore({ stock: increment }, { merge: true });
+    expect(data.stock).toBe(increment);
+  });
+
+  it("keeps the null origin of an order's first status change", () => {
+    const change = orderStatusChangeConverter.fromFirestore(
+      snapshot("h1", {
+        from: null,
+        to: "reserved",
+        actor: { type: "customer", id: "221771234567" },
+        reason: "1 unité(s) réservée(s) pour 10 min",
+        createdAt: timestamp(createdAt),
+      })
+    );
+    expect(change).toEqual(expect.objectContaining({ id: "h1", from: null, to: "reserved", createdAt }));
+  });
+});
+
+describe("toFirestoreUpdate", () => {
+  it("accepts partial data and never rewrites createdAt", () => {
+    const data = toFirestoreUpdate(productConverter, { price: 8000, createdAt });
+    expect(data).toEqual({ price: 8000 });
+  });
+
+  it("still checks the fields it is given", () => {
+    expect(() => toFirestoreUpdate(productConverter, { stock: 1.5 })).toThrow(DocumentValidationError);
+  });
+
+  it("writes null to clear an optional field", () => {
+    const data = toFirestoreUpdate(productConverter, { description: null, originalPrice: undefined });
+    expect(data).toEqual({ description: null });
+  });
+
+  it("does not let null through on required fields", () => {
+    expect(() => toFirestoreUpdate(productConverter, { name: null })).toThrow(DocumentValidationError);
+  });
+});
+
+describe("readDocuments", () => {
+  const valid = { vendorId: "v1", name: "Robe", keyword: "ROBE1", price: 10000, stock: 3 };
+
+  function converted(id: string, data: Record<string, unknown>) {
+    return { id, data: () => productConverter.fromFirestore(snapshot(id, data)) };
+  }
+
+  it("skips documents that break the schema", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const products = readDocuments([converted("p1", valid), converted("p2", { ...valid, price: "cher" })]);
+    expect(products.map((p) => p.id)).toEqual(["p1"]);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+
+  it("reads an invalid single document as null", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(readDocument(converted("p2", { stock: -1 }))).toBeNull();
+    warn.mockRestore();
+  });
+
+  it("rethrows other errors", () => {
+    const failing = { id: "p1", data: (): never => { throw new Error("offline"); } };
+    expect(() => readDocuments([failing])).toThrow("offline");
+  });
+});
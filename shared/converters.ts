@@ -0,0 +1,151 @@
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import {
+  clientSchema,
+  conversationSchema,
+  invoiceSchema,
+  liveOverlaySchema,
+  liveSessionSchema,
+  orderSchema,
+  orderStatusChangeSchema,
+  phoneNumberIdSchema,
+  productSchema,
+  publicVendorProfileSchema,
+  userSchema,
+  vendorConfigSchema,
+  vendorSecretsSchema,
+  vendorStatsSchema,
+} from "./types";
+
+/**
+ * Firestore converters built from the shared zod schemas
+ * Structurally compatible with both the client SDK (firebase/firestore) and
+ * the admin SDK (firebase-admin/firestore), so either side can pass them to
+ * `withConverter()`. Reads are parsed (Timestamps become Dates, nulls become
+ * undefined); writes are checked against the same schema, without the `id`.
+ * An explicit null is written as null, which clears an optional field.
+ * Lists and live snapshots go through readDocuments / readDocument, which skip
+ * documents that no longer match their schema instead of failing the whole read.
+ */
+
+export class DocumentValidationError extends Error {
+  status = 500;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "DocumentValidationError";
+  }
+}
+
+// Stored fields: any value but undefined, which both SDKs reject
+export type DocumentData = Record<string, {} | null>;
+
+// Assignable to FirestoreDataConverter<T> of either SDK; `options` is set for
+// merge writes, where only the given fields are checked (as in toFirestorePartial)
+export interface DocumentConverter<T> {
+  toFirestore(model: T, options?: object): DocumentData;
+  toFirestorePartial(fields: Partial<T> | Record<string, unknown>): DocumentData;
+  fromFirestore(snapshot: { id: string; data(): DocumentData | undefined }): T;
+}
+
+type DocumentSchema = z.ZodObject<{ id: z.ZodString } & z.ZodRawShape>;
+
+// FieldValue sentinels (serverTimestamp, increment...) differ per SDK, so they are
+// recognised structurally and written as-is instead of being validated
+function isFieldValue(value: unknown): boolean {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !(value instanceof Date) &&
+    !Array.isArray(value) &&
+    typeof (value as { toDate?: unknown }).toDate !== "function" &&
+    Object.getPrototypeOf(value) !== Object.prototype
+  );
+}
+
+export function createConverter<S extends DocumentSchema>(
+  collection: string,
+  schema: S
+): DocumentConverter<z.infer<S>> {
+  const writeSchema = schema.omit({ id: true });
+  const partialWriteSchema = writeSchema.partial();
+
+  function write(model: Record<string, unknown>, partial: boolean): DocumentData {
+    const values: Record<string, unknown> = {};
+    const data: DocumentData = {};
+    for (const [key, value] of Object.entries(model)) {
+      if (key === "id" || value === undefined) continue;
+      if (isFieldValue(value)) data[key] = value;
+      else values[key] = value;
+    }
+
+    const parsed = (partial ? partialWriteSchema : writeSchema).safeParse(values);
+    if (!parsed.success) {
+      throw new DocumentValidationError(fromZodError(parsed.error, { prefix: `Écriture ${collection} invalide` }).message);
+    }
+
+    for (const [key, value] of Object.entries(parsed.data as Record<string, unknown>)) {
+      // Firestore rejects undefined fields
+      if (value !== undefined) data[key] = value;
+      else if (values[key] === null) data[key] = null;
+    }
+    return data;
+  }
+
+  return {
+    toFirestore: (model, options) => write(model, options !== undefined),
+    toFirestorePartial: (fields) => write(fields, true),
+
+    fromFirestore(snapshot) {
+      const parsed = schema.safeParse({ ...snapshot.data(), id: snapshot.id });
+      if (!parsed.success) {
+        throw new DocumentValidationError(
+          fromZodError(parsed.error, { prefix: `Document ${collection}/${snapshot.id} invalide` }).message
+        );
+      }
+      return parsed.data;
+    },
+  };
+}
+
+// A document that fails its schema (legacy or hand-edited) is logged and read as null
+export function readDocument<T>(snapshot: { id: string; data(): T | undefined }): T | null {
+  try {
+    return snapshot.data() ?? null;
+  } catch (error) {
+    if (!(error instanceof DocumentValidationError)) throw error;
+    console.warn(`[Firestore] Skipped: ${error.message}`);
+    return null;
+  }
+}
+
+export function readDocuments<T>(docs: ReadonlyArray<{ id: string; data(): T }>): T[] {
+  const result: T[] = [];
+  for (const doc of docs) {
+    const data = readDocument(doc);
+    if (data !== null) result.push(data);
+  }
+  return result;
+}
+
+// Validates the fields of an update (updateDoc / DocumentReference.update bypass converters).
+// `id` and `createdAt` are never rewritten.
+export function toFirestoreUpdate<T>(converter: DocumentConverter<T>, data: Partial<T> | Record<string, unknown>): DocumentData {
+  const { createdAt: _createdAt, ...fields } = data as Record<string, unknown>;
+  return converter.toFirestorePartial(fields);
+}
+
+export const userConverter = createConverter("users", userSchema);
+export const vendorConfigConverter = createConverter("vendorConfigs", vendorConfigSchema);
+export const vendorSecretsConverter = createConverter("vendorSecrets", vendorSecretsSchema);
+export const phoneNumberIdConverter = createConverter("phoneNumberIds", phoneNumberIdSchema);
+export const publicVendorProfileConverter = createConverter("publicVendorProfiles", publicVendorProfileSchema);
+export const productConverter = createConverter("products", productSchema);
+export const orderConverter = createConverter("orders", orderSchema);
+export const orderStatusChangeConverter = createConverter("statusHistory", orderStatusChangeSchema);
+export const liveSessionConverter = createConverter("liveSessions", liveSessionSchema);
+export const liveOverlayConverter = createConverter("liveOverlays", liveOverlaySchema);
+export const conversationConverter = createConverter("conversations", conversationSchema);
+export const invoiceConverter = createConverter("invoices", invoiceSchema);
+export const clientConverter = createConverter("clients", clientSchema);
+export const vendorStatsConverter = createConverter("vendorStats", vendorStatsSchema);
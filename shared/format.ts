@@ -0,0 +1,7 @@
+/**
+ * Display formats shared by the dashboard and the chatbot (French, FCFA)
+ */
+
+export function formatPrice(amount: number): string {
+  return new Intl.NumberFormat("fr-FR").format(amount) + " FCFA";
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { lineupEntry, liveOffer, nowShowing } from "./live-lineup";
+import type { LiveSession } from "./types";
+
+const product = { id: "robe", price: 10000 };
+
+function session(overrides: Partial<LiveSession> = {}): LiveSession {
+  return {
+    id: "s1",
+    vendorId: "v1",
+    title: "Live du soir",
+    platform: "tiktok",
+    active: true,
+    lineup: [
+      { productId: "robe", livePrice: 7500, quantityCap: 5 },
+      { productId: "sac" },
+    ],
+    currentIndex: 0,
+    reservedByProduct: {},
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("live lineup", () => {
+  it("finds the entry and the product now showing", () => {
+    expect(lineupEntry(session(), "sac")).toEqual({ productId: "sac" });
+    expect(lineupEntry(session(), "absent")).toBeNull();
+    expect(nowShowing(session({ currentIndex: 1 }))?.productId).toBe("sac");
+    expect(nowShowing(session({ currentIndex: 5 }))).toBeNull();
+  });
+
+  it("quotes the flash price and what is left of the cap", () => {
+    const offer = liveOffer(session({ reservedByProduct: { robe: 2 } }), product);
+    expect(offer).toEqual({ price: 7500, remaining: 3 });
+  });
+
+  it("never reports a negative remainder", () => {
+    expect(liveOffer(session({ reservedByProduct: { robe: 9 } }), product)?.remaining).toBe(0);
+  });
+
+  it("keeps the catalogue price and no cap when the entry sets none", () => {
+    expect(liveOffer(session(), { id: "sac", price: 4000 })).toEqual({ price: 4000, remaining: null });
+  });
+
+  it("has no offer outside an active session or the lineup", () => {
+    expect(liveOffer(null, product)).toBeNull();
+    expect(liveOffer(session({ active: false }), product)).toBeNull();
+    expect(liveOffer(session(), { id: "absent", price: 1 })).toBeNull();
+  });
+});
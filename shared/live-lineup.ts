@@ -0,0 +1,41 @@
+/**
+ * Live session lineup
+ * Flash prices and quantity caps only apply while the session is active:
+ * once it ends, a keyword falls back to Product.price. Shared by the chatbot,
+ * the reservation service and the vendor's live page.
+ */
+
+import type { LiveLineupItem, LiveSession, Product } from "./types";
+
+type LineupSession = Pick<LiveSession, "active" | "lineup" | "currentIndex" | "reservedByProduct">;
+
+export interface LiveOffer {
+  price: number;
+  // Units still available at the session level, null when uncapped
+  remaining: number | null;
+}
+
+export function lineupEntry(session: Pick<LiveSession, "lineup">, productId: string): LiveLineupItem | null {
+  return session.lineup.find((item) => item.productId === productId) ?? null;
+}
+
+// The product the vendor is showing right now
+export function nowShowing(session: Pick<LiveSession, "lineup" | "currentIndex">): LiveLineupItem | null {
+  return session.lineup[session.currentIndex] ?? null;
+}
+
+// Price and cap for a product ordered during the session; null outside of it
+export function liveOffer(
+  session: LineupSession | null | undefined,
+  product: Pick<Product, "id" | "price">
+): LiveOffer | null {
+  if (!session?.active) return null;
+  const entry = lineupEntry(session, product.id);
+  if (!entry) return null;
+
+  const reserved = session.reservedByProduct[product.id] || 0;
+  return {
+    price: entry.livePrice ?? product.price,
+    remaining: entry.quantityCap !== undefined ? Math.max(0, entry.quantityCap - reserved) : null,
+  };
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertTransition,
+  canTransition,
+  InvalidStatusTransitionError,
+  isFinalStatus,
+  ORDER_STATUS_TRANSITIONS,
+} from "./order-status";
+import type { OrderStatus } from "./types";
+
+describe("order status transitions", () => {
+  it("follows pending → reserved → paid", () => {
+    expect(canTransition("pending", "reserved")).toBe(true);
+    expect(canTransition("reserved", "paid")).toBe(true);
+  });
+
+  it("lets held orders expire or be cancelled", () => {
+    for (const from of ["pending", "reserved"] as const) {
+      expect(canTransition(from, "expired")).toBe(true);
+      expect(canTransition(from, "cancelled")).toBe(true);
+    }
+  });
+
+  it("never leaves a final status", () => {
+    const all = Object.keys(ORDER_STATUS_TRANSITIONS) as OrderStatus[];
+    for (const from of ["paid", "expired", "cancelled"] as const) {
+      expect(isFinalStatus(from)).toBe(true);
+      for (const to of all) expect(canTransition(from, to)).toBe(false);
+    }
+  });
+
+  it("does not go back to pending", () => {
+    expect(canTransition("reserved", "pending")).toBe(false);
+  });
+
+  it("throws a 409 on a forbidden move", () => {
+    expect(() => assertTransition("paid", "cancelled")).toThrow(InvalidStatusTransitionError);
+    try {
+      assertTransition("expired", "paid");
+    } catch (error) {
+      expect((error as InvalidStatusTransitionError).status).toBe(409);
+    }
+    expect(() => assertTransition("reserved", "paid")).not.toThrow();
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Order status state machine
+ * Single source of truth for allowed status moves, shared by the client hooks
+ * and the server (reservations, expiry job, payment webhooks).
+ */
+
+import type { OrderStatus } from "./types";
+
+// pending → reserved → paid, with expiry / cancellation while stock is held
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ["reserved", "paid", "expired", "cancelled"],
+  reserved: ["paid", "expired", "cancelled"],
+  paid: [],
+  expired: [],
+  cancelled: [],
+};
+
+// Schemas in shared/types.ts (orderStatusChangeSchema)
+export type { OrderStatusChange, StatusChangeActor, StatusChangeActorType } from "./types";
+
+export class InvalidStatusTransitionError extends Error {
+  status = 409;
+
+  constructor(public from: OrderStatus, public to: OrderStatus) {
+    super(`Transition de statut interdite: ${from} → ${to}`);
+    this.name = "InvalidStatusTransitionError";
+  }
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function assertTransition(from: OrderStatus, to: OrderStatus): void {
+  if (!canTransition(from, to)) {
+    throw new InvalidStatusTransitionError(from, to);
+  }
+}
+
+export function isFinalStatus(status: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[status].length === 0;
+}
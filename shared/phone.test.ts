@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { isCompletePhone, normalizePhone } from "./phone";
+
+describe("normalizePhone", () => {
+  it("keeps the digits of any written form", () => {
+    expect(normalizePhone("+221 77 123 45 67")).toBe("221771234567");
+    expect(normalizePhone("00221-77-123-45-67")).toBe("221771234567");
+  });
+});
+
+describe("isCompletePhone", () => {
+  it("needs the country code", () => {
+    expect(isCompletePhone("+221 77 123 45 67")).toBe(true);
+    expect(isCompletePhone("77 123 45 67")).toBe(false);
+    expect(isCompletePhone("2217")).toBe(false);
+  });
+});
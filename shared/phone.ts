@@ -0,0 +1,17 @@
+/**
+ * Customer phone numbers
+ * Orders, clients and conversations are keyed by the digits only, as WhatsApp
+ * sends them ("221771234567"), whatever the vendor typed ("+221 77 123 45 67").
+ */
+
+export function normalizePhone(phone: string): string {
+  return phone.replace(/\D/g, "").replace(/^00/, "");
+}
+
+// Country code included ("221" + 9 digits in Senegal); shorter input cannot
+// match a stored number exactly
+export const MIN_PHONE_DIGITS = 11;
+
+export function isCompletePhone(phone: string): boolean {
+  return normalizePhone(phone).length >= MIN_PHONE_DIGITS;
+}
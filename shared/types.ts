@@ -1,168 +1,481 @@
+import { z } from "zod";
+
 /**
  * LivePay Type Definitions
- * Pure TypeScript types for Firebase Firestore
+ * zod schemas for every Firestore document; the TypeScript types are inferred
+ * from them and shared/converters.ts uses them to validate reads and writes,
+ * so the server and the client agree on one shape per collection.
  */
 
-// ========== USER TYPES ==========
-export type UserRole = "vendor" | "admin";
-
-export interface User {
-  id: string;
-  email: string;
-  firstName?: string;
-  lastName?: string;
-  businessName?: string;
-  phone?: string;
-  role: UserRole;
-  profileImageUrl?: string;
-  createdAt: Date;
-  updatedAt: Date;
+// ========== FIELD HELPERS ==========
+
+// Firestore Timestamps (client or admin SDK) and Dates both become Dates
+function toDate(value: unknown): unknown {
+  if (value && typeof (value as { toDate?: unknown }).toDate === "function") {
+    return (value as { toDate(): Date }).toDate();
+  }
+  return value;
 }
 
+// Missing on documents written before the field existed: falls back to now
+const timestamp = z.preprocess(toDate, z.date().default(() => new Date()));
+
+// Firestore stores absent values as null, the app model uses undefined
+function optional<T extends z.ZodTypeAny>(schema: T) {
+  return schema.nullish().transform((value): z.output<T> | undefined => value ?? undefined);
+}
+
+const optionalTimestamp = optional(z.preprocess(toDate, z.date()));
+
+// ========== USER TYPES ==========
+export const userRoleSchema = z.enum(["vendor", "admin"]);
+export type UserRole = z.infer<typeof userRoleSchema>;
+
+export const userSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  firstName: optional(z.string()),
+  lastName: optional(z.string()),
+  businessName: optional(z.string()),
+  phone: optional(z.string()),
+  role: userRoleSchema.default("vendor"),
+  profileImageUrl: optional(z.string()),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+export type User = z.infer<typeof userSchema>;
+
 export type PublicUser = User; // No password in Firebase client SDK
 
 // ========== VENDOR CONFIG ==========
-export type VendorStatus = "active" | "inactive" | "suspended";
-export type VendorSegment = "live_seller" | "shop" | "events" | "services" | "b2b";
-
-export interface VendorConfig {
-  id: string;
-  vendorId: string;
-  businessName: string;
-  mobileMoneyNumber?: string;
-  preferredPaymentMethod: string;
-  whatsappPhoneNumberId?: string;
-  whatsappAccessToken?: string;
-  whatsappVerifyToken?: string;
-  status: VendorStatus;
-  liveMode: boolean;
-  reservationDurationMinutes: number;
-  autoReplyEnabled: boolean;
-  welcomeMessage?: string;
-  segment: VendorSegment;
-  allowQuantitySelection: boolean;
-  requireDeliveryAddress: boolean;
-  autoReminderEnabled: boolean;
-  upsellEnabled: boolean;
-  minTrustScoreRequired: number;
-  messageTemplates?: string;
-  createdAt: Date;
-  updatedAt: Date;
-}
+export const vendorStatusSchema = z.enum(["active", "inactive", "suspended"]);
+export type VendorStatus = z.infer<typeof vendorStatusSchema>;
+
+export const vendorSegmentSchema = z.enum(["live_seller", "shop", "events", "services", "b2b"]);
+export type VendorSegment = z.infer<typeof vendorSegmentSchema>;
+
+export const vendorConfigSchema = z.object({
+  id: z.string(),
+  vendorId: z.string(),
+  businessName: z.string(),
+  mobileMoneyNumber: optional(z.string()),
+  preferredPaymentMethod: z.string().default("wave"),
+  // WhatsApp credentials live in vendorSecrets (server only)
+  // Set by the server with the phoneNumberIds mapping (/api/vendor/phone-number-id)
+  whatsappPhoneNumberId: optional(z.string()),
+  status: vendorStatusSchema.default("active"),
+  liveMode: z.boolean().default(false),
+  reservationDurationMinutes: z.number().int().positive().default(10),
+  autoReplyEnabled: z.boolean().default(true),
+  welcomeMessage: optional(z.string()),
+  // Early configs were saved with segment "starter"
+  segment: vendorSegmentSchema.catch("live_seller"),
+  allowQuantitySelection: z.boolean().default(true),
+  requireDeliveryAddress: z.boolean().default(false),
+  autoReminderEnabled: z.boolean().default(true),
+  upsellEnabled: z.boolean().default(false),
+  minTrustScoreRequired: z.number().default(0),
+  messageTemplates: optional(z.string()),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+export type VendorConfig = z.infer<typeof vendorConfigSchema>;
 
 export type InsertVendorConfig = Omit<VendorConfig, "id" | "createdAt" | "updatedAt">;
 
-// ========== PRODUCT ==========
-export interface Product {
-  id: string;
-  vendorId: string;
-  keyword: string;
-  shareCode?: string;
-  name: string;
-  price: number;
-  originalPrice?: number;
-  description?: string;
-  imageUrl?: string;
-  images?: string;
-  category?: string;
-  stock: number;
-  reservedStock: number;
-  active: boolean;
-  featured?: boolean;
-  createdAt: Date;
+// ========== VENDOR SECRETS ==========
+// vendorSecrets/{vendorId}, never readable from the browser. The access token
+// is encrypted at rest (server/secrets.ts); the verify token is only kept as
+// a SHA-256 hash, enough to recognise the webhook handshake.
+export const vendorSecretsSchema = z.object({
+  id: z.string(), // vendorId
+  vendorId: z.string(),
+  whatsappAccessTokenEncrypted: optional(z.string()),
+  whatsappVerifyTokenHash: optional(z.string()),
+  updatedAt: timestamp,
+});
+
+export type VendorSecrets = z.infer<typeof vendorSecretsSchema>;
+
+// Settings endpoint body: write-only, values are never sent back
+export const updateVendorSecretsSchema = z.object({
+  whatsappAccessToken: z.string().trim().min(1).max(1000).optional(),
+  whatsappVerifyToken: z.string().trim().min(8).max(200).optional(),
+});
+
+export type UpdateVendorSecretsInput = z.infer<typeof updateVendorSecretsSchema>;
+
+// What the settings page is told: whether each secret is set
+export type VendorSecretsStatus = Record<keyof UpdateVendorSecretsInput, boolean>;
+
+// ========== WHATSAPP NUMBERS ==========
+// phoneNumberIds/{phoneNumberId}: the vendor that receives a WhatsApp Business
+// number's webhooks. Server only, written in a transaction with
+// VendorConfig.whatsappPhoneNumberId so a number belongs to one vendor at a time.
+export const phoneNumberIdSchema = z.object({
+  id: z.string(), // Meta phone_number_id
+  vendorId: z.string(),
+  createdAt: timestamp,
+});
+
+export type PhoneNumberId = z.infer<typeof phoneNumberIdSchema>;
+
+// Settings endpoint body: null disconnects the number
+export const updatePhoneNumberIdSchema = z.object({
+  phoneNumberId: z.string().trim().regex(/^\d{5,30}$/, "Phone number ID invalide (chiffres uniquement)").nullable(),
+});
+
+// ========== PUBLIC VENDOR PROFILE ==========
+// publicVendorProfiles/{vendorId}: what the public pay and product pages show
+// about a vendor, and nothing else
+export const publicVendorProfileSchema = z.object({
+  id: z.string(), // vendorId
+  vendorId: z.string(),
+  displayName: z.string(),
+  avatarUrl: optional(z.string()),
+  // WhatsApp contact number
+  contactPhone: optional(z.string()),
+  updatedAt: timestamp,
+});
+
+export type PublicVendorProfile = z.infer<typeof publicVendorProfileSchema>;
+
+export function publicVendorProfileFrom(
+  vendorId: string,
+  user: Pick<User, "businessName" | "firstName" | "profileImageUrl" | "phone"> | null,
+  config: Pick<VendorConfig, "businessName" | "mobileMoneyNumber"> | null
+): PublicVendorProfile {
+  return {
+    id: vendorId,
+    vendorId,
+    displayName: user?.businessName || config?.businessName || user?.firstName || "Vendeur",
+    avatarUrl: user?.profileImageUrl,
+    contactPhone: user?.phone || config?.mobileMoneyNumber,
+    updatedAt: new Date(),
+  };
 }
 
+// ========== PRODUCT ==========
+export const productSchema = z.object({
+  id: z.string(),
+  vendorId: z.string(),
+  keyword: z.string(),
+  shareCode: optional(z.string()),
+  name: z.string(),
+  price: z.number().nonnegative(),
+  originalPrice: optional(z.number().nonnegative()),
+  description: optional(z.string()),
+  imageUrl: optional(z.string()),
+  images: optional(z.string()),
+  category: optional(z.string()),
+  stock: z.number().int().nonnegative(),
+  reservedStock: z.number().int().nonnegative().default(0),
+  active: z.boolean().default(true),
+  featured: optional(z.boolean()),
+  createdAt: timestamp,
+});
+
+export type Product = z.infer<typeof productSchema>;
+
 export type InsertProduct = Omit<Product, "id" | "createdAt" | "shareCode" | "reservedStock" | "vendorId">;
 
 // ========== ORDER ==========
-export type OrderStatus = "pending" | "reserved" | "paid" | "expired" | "cancelled";
-export type PaymentMethod = "wave" | "orange_money" | "card" | "cash";
-
-export interface Order {
-  id: string;
-  vendorId: string;
-  sessionId?: string;
-  productId: string;
-  clientId?: string;
-  clientPhone: string;
-  clientName?: string;
-  clientTrustScore?: number;
+export const orderStatusSchema = z.enum(["pending", "reserved", "paid", "expired", "cancelled"]);
+export type OrderStatus = z.infer<typeof orderStatusSchema>;
+
+export const paymentMethodSchema = z.enum(["wave", "orange_money", "card", "cash"]);
+export type PaymentMethod = z.infer<typeof paymentMethodSchema>;
+
+export const orderSchema = z.object({
+  id: z.string(),
+  vendorId: z.string(),
+  sessionId: optional(z.string()),
+  productId: z.string(),
+  productName: z.string().default(""),
+  clientId: optional(z.string()),
+  clientPhone: z.string(),
+  clientName: optional(z.string()),
+  clientTrustScore: optional(z.number()),
+  quantity: z.number().int().positive(),
+  unitPrice: z.number().nonnegative().default(0),
+  totalAmount: z.number().nonnegative(),
+  status: orderStatusSchema,
+  paymentUrl: optional(z.string()),
+  // Random token behind /pay/:token, resolved by the server only (server/payment-links.ts)
+  paymentToken: optional(z.string()),
+  paymentTokenExpiresAt: optionalTimestamp,
+  // Set by the server's reserveStock: the order counts in Product.reservedStock.
+  // Orders written before it only change status when released or paid.
+  stockReserved: z.boolean().default(false),
+  paymentMethod: optional(paymentMethodSchema),
+  // Manual reference typed by the vendor (cash, transfer)
+  paymentReference: optional(z.string()),
+  paymentProof: optional(z.string()),
+  // Set once a PSP charge is created (server/payments); pspReference is the
+  // latest one, pspReferences every charge the buyer started for this order
+  pspProvider: optional(z.string()),
+  pspReference: optional(z.string()),
+  pspReferences: z.array(z.string()).default([]),
+  reservedAt: optionalTimestamp,
+  reservedUntil: optionalTimestamp,
+  paidAt: optionalTimestamp,
+  paymentTimeSeconds: optional(z.number().nonnegative()),
+  // A PSP charge succeeded after the order expired or was cancelled: the units
+  // are no longer held, so the vendor refunds or fulfils it by hand
+  paidAfterExpiry: z.boolean().default(false),
+  reminderSent: z.boolean().default(false),
+  notes: optional(z.string()),
+  deliveryAddress: optional(z.string()),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+export type Order = z.infer<typeof orderSchema>;
+
+export type InsertOrder = Omit<Order, "id" | "createdAt" | "updatedAt">;
+
+// Body of POST /api/orders: the server fills in prices and the reservation
+export const createOrderSchema = z.object({
+  productId: z.string().min(1),
+  quantity: z.number().int().min(1),
+  clientPhone: z.string().min(6),
+  clientName: z.string().optional(),
+  deliveryAddress: z.string().optional(),
+});
+
+export type CreateOrderInput = z.infer<typeof createOrderSchema>;
+
+// GET /api/pay/:token: all the public pay page gets to see of an order
+export interface PaymentLinkView {
   productName: string;
   quantity: number;
-  unitPrice: number;
-  totalAmount: number;
+  amount: number;
+  clientName?: string;
   status: OrderStatus;
-  paymentToken: string;
-  paymentUrl?: string;
-  paymentMethod?: PaymentMethod;
-  pspReference?: string;
-  reservedAt?: Date;
-  expiresAt: Date;
-  paidAt?: Date;
-  reminderSent: boolean;
-  paymentTimeSeconds?: number;
-  createdAt: Date;
+  // ISO date; payment is refused after it
+  expiresAt?: string;
+  vendorName: string;
+  vendorPhone?: string;
 }
 
-export type InsertOrder = Omit<Order, "id" | "createdAt">;
+// Who moved an order to a new status (customer phone, vendor uid, PSP name or job name)
+export const statusChangeActorSchema = z.object({
+  type: z.enum(["customer", "vendor", "psp", "system"]),
+  id: z.string(),
+});
+
+export type StatusChangeActor = z.infer<typeof statusChangeActorSchema>;
+export type StatusChangeActorType = StatusChangeActor["type"];
+
+// One document in orders/{orderId}/statusHistory, written by server/reservations.ts
+export const orderStatusChangeSchema = z.object({
+  id: z.string(),
+  from: orderStatusSchema.nullable(),
+  to: orderStatusSchema,
+  actor: statusChangeActorSchema,
+  reason: z.string(),
+  createdAt: timestamp,
+});
+
+export type OrderStatusChange = z.infer<typeof orderStatusChangeSchema>;
 
 // ========== LIVE SESSION ==========
-export interface LiveSession {
-  id: string;
-  vendorId: string;
-  title: string;
-  platform: string;
-  active: boolean;
-  createdAt: Date;
-  endedAt?: Date;
+export const livePlatformSchema = z.enum(["tiktok", "facebook", "instagram", "whatsapp_status"]);
+export type LivePlatform = z.infer<typeof livePlatformSchema>;
+
+// One product shown during the live, with its flash offer
+export const liveLineupItemSchema = z.object({
+  productId: z.string(),
+  // Replaces Product.price while the session is active
+  livePrice: optional(z.number().nonnegative()),
+  // Units that can be ordered during the session (reserved or paid)
+  quantityCap: optional(z.number().int().positive()),
+});
+
+export type LiveLineupItem = z.infer<typeof liveLineupItemSchema>;
+
+// At most one active session per vendor; orders created while it is active carry its id
+export const liveSessionSchema = z.object({
+  id: z.string(),
+  vendorId: z.string(),
+  title: z.string(),
+  platform: livePlatformSchema,
+  active: z.boolean().default(false),
+  lineup: z.array(liveLineupItemSchema).default([]),
+  // Index in `lineup` of the product being shown ("now showing")
+  currentIndex: z.number().int().nonnegative().default(0),
+  // Units held by the session's reserved / paid orders, maintained by the server
+  reservedByProduct: z.record(z.string(), z.number()).default({}),
+  // Id of the public liveOverlays document (stream overlay URL)
+  overlayToken: optional(z.string()),
+  createdAt: timestamp,
+  endedAt: optionalTimestamp,
+});
+
+export type LiveSession = z.infer<typeof liveSessionSchema>;
+
+export type InsertLiveSession = Omit<LiveSession, "id" | "createdAt" | "endedAt" | "active" | "vendorId" | "reservedByProduct">;
+
+// ========== LIVE OVERLAY ==========
+// Public projection of a live session for the OBS browser source, readable by
+// anyone holding the token (the document id). Holds no customer data beyond
+// masked names: the "now showing" fields mirror the vendor's lineup, the
+// counters and ticker are written by the server (server/live-overlay.ts).
+export const overlayPaidOrderSchema = z.object({
+  customer: z.string(), // Masked, e.g. "Ami*** D."
+  productName: z.string(),
+  quantity: z.number().int().positive(),
+  paidAt: timestamp,
+});
+
+export type OverlayPaidOrder = z.infer<typeof overlayPaidOrderSchema>;
+
+export const liveOverlaySchema = z.object({
+  id: z.string(), // Token
+  vendorId: z.string(),
+  sessionId: z.string(),
+  active: z.boolean().default(true),
+  // Lineup entry now showing, null while the lineup is empty (replaced as a whole)
+  showing: liveLineupItemSchema.nullable().default(null),
+  reservedByProduct: z.record(z.string(), z.number()).default({}),
+  // Newest first
+  recentOrders: z.array(overlayPaidOrderSchema).default([]),
+  updatedAt: timestamp,
+});
+
+export type LiveOverlay = z.infer<typeof liveOverlaySchema>;
+
+// ========== VENDOR STATS ==========
+// vendorStats/{vendorId} holds all-time totals, vendorStats/{vendorId}/days/{yyyy-mm-dd}
+// the same counters per day the orders were created (UTC, i.e. Dakar time).
+// Maintained by the server on every status change (server/stats.ts).
+export const vendorStatsSchema = z.object({
+  id: z.string(), // vendorId for the totals, yyyy-mm-dd for a day
+  vendorId: z.string(),
+  date: optional(z.string()),
+  // Product keywords recognised by the chatbot (top of the funnel)
+  keywordHits: z.number().default(0),
+  keywordHitsByProduct: z.record(z.string(), z.number()).default({}),
+  ordersCreated: z.number().default(0),
+  // Orders currently in each status
+  statusCounts: z.record(orderStatusSchema, z.number()).default({}),
+  reservationsByProduct: z.record(z.string(), z.number()).default({}),
+  paidOrdersByProduct: z.record(z.string(), z.number()).default({}),
+  revenue: z.number().default(0),
+  revenueByPaymentMethod: z.record(z.string(), z.number()).default({}),
+  unitsByProduct: z.record(z.string(), z.number()).default({}),
+  // Keyed by hour of payment, "00" to "23"
+  paidOrdersByHour: z.record(z.string(), z.number()).default({}),
+  revenueByHour: z.record(z.string(), z.number()).default({}),
+  // Sum and count, so averages can be combined across days
+  paymentTimeSecondsTotal: z.number().default(0),
+  paymentTimeCount: z.number().default(0),
+  paymentTimeBuckets: z.record(z.string(), z.number()).default({}),
+  updatedAt: timestamp,
+});
+
+export type VendorStats = z.infer<typeof vendorStatsSchema>;
+
+// Histogram of reservation-to-payment times, upper bounds in seconds
+export const PAYMENT_TIME_BUCKETS = [
+  { key: "lt1m", maxSeconds: 60 },
+  { key: "1to3m", maxSeconds: 180 },
+  { key: "3to5m", maxSeconds: 300 },
+  { key: "5to10m", maxSeconds: 600 },
+  { key: "gt10m", maxSeconds: Infinity },
+] as const;
+
+export function paymentTimeBucket(seconds: number): string {
+  return PAYMENT_TIME_BUCKETS.find((b) => seconds < b.maxSeconds)!.key;
 }
 
-export type InsertLiveSession = Omit<LiveSession, "id" | "createdAt" | "endedAt" | "active" | "vendorId">;
+// Hour bucket of paidOrdersByHour / revenueByHour (UTC, i.e. Dakar time)
+export function statsHour(date: Date): string {
+  return String(date.getUTCHours()).padStart(2, "0");
+}
 
-// ========== INVOICE ==========
-export type InvoiceStatus = "pending" | "paid" | "expired" | "cancelled";
-
-export interface Invoice {
-  id: string;
-  vendorId: string;
-  sessionId?: string;
-  productId?: string;
-  clientName: string;
-  clientPhone: string;
-  productName: string;
-  amount: number;
-  status: InvoiceStatus;
-  token: string;
-  expiresAt: Date;
-  paymentMethod?: PaymentMethod;
-  paymentProviderRef?: string;
-  paidAt?: Date;
-  createdAt: Date;
+export function averagePaymentTimeSeconds(stats: Pick<VendorStats, "paymentTimeSecondsTotal" | "paymentTimeCount">): number | null {
+  return stats.paymentTimeCount > 0 ? Math.round(stats.paymentTimeSecondsTotal / stats.paymentTimeCount) : null;
 }
 
+// ========== CONVERSATION (CHATBOT) ==========
+export const conversationStepSchema = z.enum(["idle", "awaiting_quantity", "awaiting_address", "awaiting_confirmation"]);
+export type ConversationStep = z.infer<typeof conversationStepSchema>;
+
+export const conversationSchema = z.object({
+  id: z.string(), // `${vendorId}_${clientPhone}`
+  vendorId: z.string(),
+  clientPhone: z.string(),
+  clientName: optional(z.string()),
+  step: conversationStepSchema,
+  productId: optional(z.string()),
+  quantity: optional(z.number().int().positive()),
+  deliveryAddress: optional(z.string()),
+  // Epoch when missing, so a broken document reads as expired
+  lastActivityAt: z.preprocess(toDate, z.date().default(() => new Date(0))),
+  expiresAt: z.preprocess(toDate, z.date().default(() => new Date(0))),
+  createdAt: timestamp,
+});
+
+export type Conversation = z.infer<typeof conversationSchema>;
+
+// ========== INVOICE ==========
+export const invoiceStatusSchema = z.enum(["pending", "paid", "expired", "cancelled"]);
+export type InvoiceStatus = z.infer<typeof invoiceStatusSchema>;
+
+export const invoiceSchema = z.object({
+  id: z.string(),
+  vendorId: z.string(),
+  sessionId: optional(z.string()),
+  productId: optional(z.string()),
+  clientName: optional(z.string()),
+  clientPhone: z.string(),
+  productName: optional(z.string()),
+  description: optional(z.string()),
+  amount: z.number().nonnegative(),
+  status: invoiceStatusSchema,
+  paymentMethod: optional(paymentMethodSchema),
+  paymentReference: optional(z.string()),
+  dueDate: optionalTimestamp,
+  paidAt: optionalTimestamp,
+  createdAt: timestamp,
+});
+
+export type Invoice = z.infer<typeof invoiceSchema>;
+
 export type InsertInvoice = Omit<Invoice, "id" | "createdAt">;
 
 // ========== CLIENT (CRM) ==========
-export type ClientTier = "bronze" | "silver" | "gold" | "diamond";
-
-export interface Client {
-  id: string;
-  vendorId: string;
-  phone: string;
-  name?: string;
-  trustScore: number;
-  totalOrders: number;
-  successfulPayments: number;
-  expiredReservations: number;
-  totalSpent: number;
-  tier: ClientTier;
-  preferredPayment?: PaymentMethod;
-  avgPaymentTimeSeconds?: number;
-  lastOrderAt?: Date;
-  firstOrderAt?: Date;
-  tags?: string[];
-  createdAt: Date;
-  updatedAt: Date;
-}
+export const clientTierSchema = z.enum(["bronze", "silver", "gold", "diamond"]);
+export type ClientTier = z.infer<typeof clientTierSchema>;
+
+export const clientSchema = z.object({
+  id: z.string(),
+  vendorId: z.string(),
+  phone: z.string(),
+  name: optional(z.string()),
+  trustScore: z.number().default(50),
+  totalOrders: z.number().int().nonnegative().default(0),
+  successfulPayments: z.number().int().nonnegative().default(0),
+  expiredReservations: z.number().int().nonnegative().default(0),
+  totalSpent: z.number().nonnegative().default(0),
+  tier: clientTierSchema.default("bronze"),
+  preferredPayment: optional(paymentMethodSchema),
+  avgPaymentTimeSeconds: optional(z.number().nonnegative()),
+  lastOrderAt: optionalTimestamp,
+  firstOrderAt: optionalTimestamp,
+  tags: optional(z.array(z.string())),
+  // Vendor's own notes (sizes, delivery habits...)
+  notes: optional(z.string()),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+export type Client = z.infer<typeof clientSchema>;
+
+// What the vendor edits on the /clients page; the counters belong to the server
+export type ClientProfileUpdate = Partial<Pick<Client, "name" | "tags" | "notes">>;
 
 export type InsertClient = Omit<Client, "id" | "createdAt" | "updatedAt">;
@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config";
+
+// Security rules tests, against the Firestore emulator: `npm run test:rules`
+export default defineConfig({
+  test: {
+    include: ["firestore.rules.test.ts"],
+    environment: "node",
+    testTimeout: 20000,
+  },
+});